@@ -0,0 +1,203 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+
+// Builds the media catalog from the folders under public/ plus a sidecar metadata file.
+// The app imports it as `virtual:media-catalog`; builds also emit it as catalog.json.
+
+const VIRTUAL_ID = 'virtual:media-catalog';
+const RESOLVED_ID = '\0' + VIRTUAL_ID;
+
+type Section = 'gifs' | 'images' | 'music';
+
+const SECTIONS: Record<Section, { folder: string; extensions: string[] }> = {
+  gifs: { folder: 'gifs', extensions: ['.gif'] },
+  images: { folder: 'pics', extensions: ['.png', '.jpg', '.jpeg', '.webp'] },
+  music: { folder: 'music', extensions: ['.ogg', '.m4a', '.mp3', '.wav'] }
+};
+
+interface MetadataEntry {
+  id: string;
+  file: string;
+  title: string;
+  generation?: number;
+  generations?: number;
+  rule?: string;
+  population?: number;
+  seed?: string;
+  date?: string;
+  description?: string;
+  tags?: string[];
+}
+
+interface MeasuredInfo {
+  width?: number;
+  height?: number;
+  frameCount?: number;
+}
+
+type Metadata = Record<Section, MetadataEntry[]>;
+
+interface CatalogEntry extends Omit<MetadataEntry, 'file' | 'title'>, MeasuredInfo {
+  name: string;
+  path: string;
+}
+
+interface MediaCatalogOptions {
+  metadataFile: string;
+  publicDir?: string;
+}
+
+const readMetadata = (file: string): Metadata => {
+  const raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  for (const section of Object.keys(SECTIONS) as Section[]) {
+    if (!Array.isArray(raw[section])) {
+      throw new Error(`${path.basename(file)}: "${section}" must be an array`);
+    }
+    raw[section].forEach((entry: MetadataEntry, index: number) => {
+      if (!entry.id || !entry.file || !entry.title) {
+        throw new Error(`${path.basename(file)}: ${section}[${index}] needs an id, file and title`);
+      }
+    });
+  }
+  return raw;
+};
+
+const listFolder = (dir: string, extensions: string[]) => {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir).filter(file => extensions.includes(path.extname(file).toLowerCase()));
+};
+
+// Counts image descriptors by walking the GIF block structure
+const countGifFrames = (bytes: Buffer) => {
+  let offset = 13;
+  if (bytes[10] & 0x80) offset += 3 * (1 << ((bytes[10] & 0x07) + 1));
+
+  const skipSubBlocks = () => {
+    while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1;
+    offset++;
+  };
+
+  let frames = 0;
+  while (offset < bytes.length) {
+    const marker = bytes[offset];
+    if (marker === 0x2c) {
+      frames++;
+      const packed = bytes[offset + 9];
+      offset += 10;
+      if (packed & 0x80) offset += 3 * (1 << ((packed & 0x07) + 1));
+      offset++; // LZW minimum code size
+      skipSubBlocks();
+    } else if (marker === 0x21) {
+      offset += 2;
+      skipSubBlocks();
+    } else {
+      break; // trailer or corrupt data
+    }
+  }
+  return frames;
+};
+
+// Reads dimensions (and frame count for GIFs) straight from the file headers
+const measure = (file: string): MeasuredInfo => {
+  const bytes = fs.readFileSync(file);
+
+  if (bytes.toString('ascii', 0, 3) === 'GIF') {
+    return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8), frameCount: countGifFrames(bytes) };
+  }
+  if (bytes.toString('ascii', 1, 4) === 'PNG') {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
+  return {};
+};
+
+const stem = (file: string) => file.slice(0, file.length - path.extname(file).length);
+
+const buildCatalog = (metadataFile: string, publicDir: string) => {
+  const metadata = readMetadata(metadataFile);
+  const missing: string[] = [];
+  const orphaned: string[] = [];
+  const catalog = {} as Record<Section, CatalogEntry[]>;
+
+  for (const section of Object.keys(SECTIONS) as Section[]) {
+    const { folder, extensions } = SECTIONS[section];
+    const onDisk = listFolder(path.join(publicDir, folder), extensions);
+    const listed = new Set(metadata[section].map(entry => entry.file));
+
+    metadata[section].forEach(entry => {
+      if (!onDisk.includes(entry.file)) missing.push(`${folder}/${entry.file}`);
+    });
+
+    // Music ships in several encodings - a file sharing its name with a listed track isn't orphaned
+    const listedStems = new Set([...listed].map(stem));
+    onDisk.forEach(file => {
+      if (listed.has(file)) return;
+      if (section === 'music' && listedStems.has(stem(file))) return;
+      orphaned.push(`${folder}/${file}`);
+    });
+
+    catalog[section] = metadata[section].map(({ file, title, ...rest }) => ({
+      ...(section !== 'music' && onDisk.includes(file) ? measure(path.join(publicDir, folder, file)) : {}),
+      ...rest,
+      name: title,
+      path: `${folder}/${file}`
+    }));
+  }
+
+  return { catalog, missing, orphaned };
+};
+
+export default function mediaCatalog({ metadataFile, publicDir = 'public' }: MediaCatalogOptions): Plugin {
+  let root = process.cwd();
+  let catalogJson = '';
+
+  const resolve = (file: string) => path.resolve(root, file);
+
+  return {
+    name: 'media-catalog',
+
+    configResolved(config) {
+      root = config.root;
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : null;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_ID) return null;
+
+      this.addWatchFile(resolve(metadataFile));
+      const { catalog, missing, orphaned } = buildCatalog(resolve(metadataFile), resolve(publicDir));
+
+      if (missing.length > 0) {
+        this.error(`Media catalog lists files that do not exist:\n  ${missing.join('\n  ')}`);
+      }
+      orphaned.forEach(file => this.warn(`Orphaned asset not in ${metadataFile}: ${file}`));
+
+      catalogJson = JSON.stringify(catalog, null, 2);
+      return `export default ${catalogJson};`;
+    },
+
+    generateBundle() {
+      if (catalogJson) {
+        this.emitFile({ type: 'asset', fileName: 'catalog.json', source: catalogJson });
+      }
+    },
+
+    // Re-run the checks when media is added or removed while the dev server is up
+    configureServer(server) {
+      const mediaDirs = Object.values(SECTIONS).map(({ folder }) => path.join(resolve(publicDir), folder));
+      const refresh = (file: string) => {
+        if (!mediaDirs.some(dir => file.startsWith(dir))) return;
+        const module = server.moduleGraph.getModuleById(RESOLVED_ID);
+        if (module) {
+          server.moduleGraph.invalidateModule(module);
+          server.ws.send({ type: 'full-reload' });
+        }
+      };
+      server.watcher.on('add', refresh);
+      server.watcher.on('unlink', refresh);
+    }
+  };
+}
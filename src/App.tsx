@@ -1,29 +1,108 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import GifDisplay from './components/GifDisplay';
 import CollageView from './components/CollageView';
 import PinterestGallery from './components/PinterestGallery';
 import IrregularCollage from './components/IrregularCollage';
 import StaticImageDisplay from './components/StaticImageDisplay';
+import LifeSimulation from './components/LifeSimulation';
 import MusicPlayer from './components/MusicPlayer';
 import Lightbox from './components/Lightbox';
+import SeedBadge from './components/SeedBadge';
 import { gifs, musicTracks, combinedMedia, staticImages } from './data';
-import { GifItem, MediaItem, MusicTrack } from './types';
+import { GifItem, MediaItem, MusicTrack, ViewMode } from './types';
+import { LifePattern } from './life/formats';
+import { readSharedRule, withoutSharedSimulation } from './life/share';
+import { useDisplayOrder, useNavigation } from './navigation/NavigationContext';
+import { neighbourIds, stepOrder } from './navigation/displayOrder';
+import { HashRoute, formatHash, pushRoute, readRoute, readRouteState, replaceRoute } from './navigation/hashRoute';
+import { useLayoutRecorder } from './media/useLayoutRecorder';
+import { buildQueue, PlaylistSettings, stepQueue } from './audio/playlist';
+import { useAudioLevels } from './audio/AudioLevelsContext';
+import { artworkFor, useMediaSession } from './audio/useMediaSession';
+import { loadSession, resetSession, saveSession } from './persistence/session';
+import { formatSeed, parseSeed, randomSeed } from './utils/random';
 import './App.css';
 
+// Links to a simulation (they carry a rule) open straight into the simulation view,
+// otherwise a link without a layout returns to wherever the visitor left off
+const layoutFor = (route: HashRoute): ViewMode => route.layout ?? (readSharedRule() ? 'simulation' : loadSession().layout);
+
+// Layouts whose arrangement comes from a seed
+const SEEDED_LAYOUTS: ViewMode[] = ['pinterest', 'irregular'];
+
+const toGifItem = ({ type: _type, ...item }: MediaItem): GifItem => item;
+
 function App() {
+  const [initialRoute] = useState(readRoute);
   const [scrollProgress, setScrollProgress] = useState(0);
-  const [lightboxGif, setLightboxGif] = useState<GifItem | null>(null);
-  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
-  const [viewMode, setViewMode] = useState<'list' | 'stack' | 'large-list' | 'pinterest' | 'irregular' | 'pics-only'>('pinterest');
+  const [lightboxGif, setLightboxGif] = useState<GifItem | null>(() => {
+    const item = combinedMedia.find(media => media.id === initialRoute.itemId);
+    return item ? toGifItem(item) : null;
+  });
+  const [isLightboxOpen, setIsLightboxOpen] = useState(() => lightboxGif !== null);
+  const [viewMode, setViewMode] = useState<ViewMode>(() => layoutFor(initialRoute));
   const [isInitialLoad, setIsInitialLoad] = useState(true);
   const [isMusicPlayerVisible, setIsMusicPlayerVisible] = useState(true);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const [teleportTrigger] = useState(0);
   const [imageRefreshKey, setImageRefreshKey] = useState(0);
+  // Seed for the shuffled layouts - a linked seed recreates the layout exactly
+  const [layoutSeed, setLayoutSeed] = useState(() => parseSeed(initialRoute.params.get('seed')) ?? randomSeed());
+  const [isSeedPinned, setIsSeedPinned] = useState(false);
+  const [simulationSeed, setSimulationSeed] = useState<LifePattern | null>(null);
+  // GIFs rendered from the simulation in this session, shown alongside the catalog
+  const [localGifs, setLocalGifs] = useState<GifItem[]>([]);
+
+  const galleryGifs = useMemo(() => [...gifs, ...localGifs], [localGifs]);
+  const galleryMedia = useMemo<MediaItem[]>(() => [
+    ...combinedMedia,
+    ...localGifs.map(gif => ({ ...gif, type: 'gif' as const }))
+  ], [localGifs]);
 
   // Music player state
-  const [currentTrack, setCurrentTrack] = useState<MusicTrack | null>(null);
+  // A linked track is selected but waits for the visitor to press play
+  const [currentTrack, setCurrentTrack] = useState<MusicTrack | null>(
+    () => musicTracks.find(track => track.id === (initialRoute.params.get('track') ?? loadSession().trackId)) ?? null
+  );
+
+  useEffect(() => {
+    saveSession({ layout: viewMode });
+  }, [viewMode]);
+
+  useEffect(() => {
+    saveSession({ trackId: currentTrack?.id ?? null });
+  }, [currentTrack]);
+
+  // The soundtrack queue: track ids in play order, shuffled in shuffle mode
+  const [playlist, setPlaylist] = useState<PlaylistSettings>(() => loadSession().playlist);
+  const [queue, setQueue] = useState(() => buildQueue(musicTracks.map(track => track.id), playlist.mode, currentTrack?.id));
+
+  useEffect(() => {
+    saveSession({ playlist });
+  }, [playlist]);
+
+  const handleReset = () => {
+    if (window.confirm('Reset layout, music player and collage arrangement to their defaults?')) {
+      resetSession();
+    }
+  };
   const [isPlaying, setIsPlaying] = useState(false);
+  const [trackLength, setTrackLength] = useState(0); // seconds in one loop of the current track
+  const [trackBoundary, setTrackBoundary] = useState(0); // bumped whenever the soundtrack loops or moves on
+
+  // The ambient particles pulse with the soundtrack's mid band, where the guitar sits
+  const ambientRef = useRef<HTMLDivElement>(null);
+  useAudioLevels(({ mid }) => {
+    ambientRef.current?.style.setProperty('--audio-level', mid.toFixed(3));
+  }, isPlaying);
+
+  useEffect(() => {
+    if (!isPlaying) ambientRef.current?.style.removeProperty('--audio-level');
+  }, [isPlaying]);
+
+  // WebM capture of whatever layout is on screen, with the soundtrack mixed in
+  const mainRef = useRef<HTMLElement>(null);
+  const { isRecording, toggleRecording } = useLayoutRecorder(mainRef, viewMode);
 
   useEffect(() => {
     const handleScroll = () => {
@@ -68,15 +147,16 @@ function App() {
 
   const toggleLayout = (direction: 'forward' | 'backward' = 'forward') => {
     setViewMode(prev => {
-      const nextMode = (() => {
+      const nextMode: ViewMode = (() => {
         if (direction === 'backward') {
           switch (prev) {
-            case 'list': return 'pinterest';
+            case 'list': return 'simulation';
             case 'stack': return 'list';
             case 'irregular': return 'stack';
             case 'pics-only': return 'irregular';
             case 'large-list': return 'pics-only';
             case 'pinterest': return 'large-list';
+            case 'simulation': return 'pinterest';
             default: return 'list';
           }
         } else {
@@ -86,7 +166,8 @@ function App() {
             case 'irregular': return 'pics-only';
             case 'pics-only': return 'large-list';
             case 'large-list': return 'pinterest';
-            case 'pinterest': return 'list';
+            case 'pinterest': return 'simulation';
+            case 'simulation': return 'list';
             default: return 'list';
           }
         }
@@ -125,6 +206,11 @@ function App() {
       if (nextMode === 'large-list') {
         window.scrollTo({ top: 0, behavior: 'smooth' });
       }
+
+      // Scroll to top when switching to the live simulation view
+      if (nextMode === 'simulation') {
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+      }
       
       return nextMode;
     });
@@ -145,8 +231,12 @@ function App() {
       } else if (e.key === 'd' || e.key === 'D' || e.key === 'ArrowRight') {
         toggleLayout('forward');
       } else if (e.key === 'r' || e.key === 'R') {
-        // Refresh images by incrementing the key - forces re-render without affecting music
+        // Refresh images by incrementing the key - forces re-render without affecting music.
+        // A new shuffle too, unless the seed is pinned.
         setImageRefreshKey(prev => prev + 1);
+        if (!isSeedPinned) {
+          setLayoutSeed(randomSeed());
+        }
       } else if (e.key >= '1' && e.key <= '4') {
         // Music track shortcuts - work regardless of music player visibility
         const trackIndex = parseInt(e.key) - 1;
@@ -159,8 +249,75 @@ function App() {
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isLightboxOpen, toggleLayout, musicTracks]);
+  }, [isLightboxOpen, toggleLayout, musicTracks, isSeedPinned]);
+
+
+  // Keep the URL in step with the layout, open item and track. Changing layout or opening
+  // the lightbox adds a history entry; stepping between items or tracks replaces it.
+  // Simulation parameters only stay on simulation entries, so Back restores the same run.
+  const hasSyncedRouteRef = useRef(false);
+  useEffect(() => {
+    const current = readRoute();
+    const currentHash = formatHash(current);
+    const params = viewMode === 'simulation' ? new URLSearchParams(current.params) : withoutSharedSimulation(current.params);
+    if (currentTrack) {
+      params.set('track', currentTrack.id);
+    } else {
+      params.delete('track');
+    }
+    if (SEEDED_LAYOUTS.includes(viewMode)) {
+      params.set('seed', formatSeed(layoutSeed));
+    } else {
+      params.delete('seed');
+    }
 
+    const next: HashRoute = {
+      layout: viewMode,
+      itemId: isLightboxOpen && lightboxGif ? lightboxGif.id : null,
+      params
+    };
+    if (formatHash(next) === currentHash) return;
+
+    const isNewEntry = current.layout !== next.layout || (next.itemId !== null && current.itemId === null);
+    if (hasSyncedRouteRef.current && isNewEntry) {
+      pushRoute(next, { lightbox: next.itemId !== null });
+    } else {
+      replaceRoute(next);
+    }
+    hasSyncedRouteRef.current = true;
+  }, [viewMode, isLightboxOpen, lightboxGif, currentTrack, layoutSeed]);
+
+  // Back/forward close the lightbox and step through layouts
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = readRoute();
+      const item = route.itemId ? galleryMedia.find(media => media.id === route.itemId) : undefined;
+
+      setViewMode(prev => {
+        const nextMode = layoutFor(route);
+        if (nextMode !== prev) {
+          window.scrollTo({ top: 0, behavior: 'smooth' });
+        }
+        return nextMode;
+      });
+
+      const seed = parseSeed(route.params.get('seed'));
+      if (seed !== null) {
+        setLayoutSeed(seed);
+      }
+
+      if (item) {
+        setLightboxGif(toGifItem(item));
+        setIsLightboxOpen(true);
+      } else {
+        setIsLightboxOpen(false);
+        setLightboxGif(null);
+      }
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [galleryMedia]);
 
   const openLightbox = (gif: GifItem) => {
     setLightboxGif(gif);
@@ -168,17 +325,32 @@ function App() {
   };
 
   const closeLightbox = () => {
+    // Step back over the entry pushed when the lightbox opened, so Forward can reopen it
+    if (readRouteState().lightbox) {
+      window.history.back();
+      return;
+    }
     setIsLightboxOpen(false);
     setLightboxGif(null);
   };
 
   const handleMediaClick = (mediaItem: MediaItem) => {
-    const gifItem: GifItem = {
-      id: mediaItem.id,
-      name: mediaItem.name,
-      path: mediaItem.path
-    };
-    openLightbox(gifItem);
+    // Keep the catalog metadata so the Lightbox info panel can show it
+    openLightbox(toGifItem(mediaItem));
+  };
+
+  // Continue a still, GIF frame or dropped pattern file as a live simulation
+  const handleSimulateFrom = (seed: LifePattern) => {
+    setSimulationSeed(seed);
+    // Closed directly rather than via history - the simulation gets its own entry on top
+    setIsLightboxOpen(false);
+    setLightboxGif(null);
+    setViewMode('simulation');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleAddToGallery = (gif: GifItem) => {
+    setLocalGifs(prev => [...prev, gif]);
   };
 
   const handleMusicPlayerDismiss = () => {
@@ -201,39 +373,79 @@ function App() {
     }
   };
 
-  const showNextGif = () => {
-    if (!lightboxGif) return;
-    let currentArray;
-    if (viewMode === 'pinterest' || viewMode === 'irregular') {
-      currentArray = combinedMedia;
-    } else if (viewMode === 'pics-only') {
-      currentArray = staticImages;
-    } else {
-      currentArray = gifs;
+  const handlePlaylistChange = (next: PlaylistSettings) => {
+    if (next.mode !== playlist.mode) {
+      setQueue(buildQueue(musicTracks.map(track => track.id), next.mode, currentTrack?.id ?? null));
     }
-    const currentIndex = currentArray.findIndex(g => g.id === lightboxGif.id);
-    const nextIndex = (currentIndex + 1) % currentArray.length;
-    const nextItem = currentArray[nextIndex];
-    setLightboxGif({ id: nextItem.id, name: nextItem.name, path: nextItem.path });
+    setPlaylist(next);
+  };
+
+  // Move through the queue and keep playing, wrapping at either end
+  const skipTrack = (direction: 1 | -1) => {
+    const id = stepQueue(queue, currentTrack?.id ?? null, direction);
+    const track = musicTracks.find(candidate => candidate.id === id);
+    if (!track) return;
+
+    setCurrentTrack(track);
+    setIsPlaying(true);
+  };
+
+  // The player only reports an end when the mode has one - loop-one never does
+  const handleTrackEnd = () => {
+    setTrackBoundary(prev => prev + 1);
+    skipTrack(1);
+  };
+
+  // Lock screen and hardware media keys
+  const trackArtwork = useMemo(
+    () => (currentTrack ? artworkFor(currentTrack, musicTracks, gifs) : []),
+    [currentTrack]
+  );
+  useMediaSession(currentTrack, isPlaying, trackArtwork, {
+    play: () => (currentTrack ? setIsPlaying(true) : skipTrack(1)),
+    pause: () => setIsPlaying(false),
+    stop: () => {
+      setIsPlaying(false);
+      setCurrentTrack(null);
+    },
+    next: () => skipTrack(1),
+    previous: () => skipTrack(-1)
+  });
+
+  // The list layouts show the arrays as they are; the others publish their own order
+  const { getOrder } = useNavigation();
+  const listOrder = useMemo(() => {
+    if (viewMode === 'list') return galleryGifs.map(gif => gif.id);
+    if (viewMode === 'pics-only') return staticImages.map(image => image.id);
+    return null;
+  }, [viewMode, galleryGifs]);
+  useDisplayOrder(listOrder);
+
+  // Lightbox navigation follows the layout on screen. An item it doesn't show (a linked
+  // item still loading, or the simulation view) steps through the whole gallery instead.
+  const lightboxOrder = () => {
+    const order = getOrder();
+    return lightboxGif && order.includes(lightboxGif.id) ? order : galleryMedia.map(media => media.id);
   };
 
-  const showPreviousGif = () => {
+  const findGalleryItem = (id: string | null) => {
+    const item = galleryMedia.find(media => media.id === id);
+    return item ? toGifItem(item) : null;
+  };
+
+  const stepLightbox = (direction: 1 | -1) => {
     if (!lightboxGif) return;
-    let currentArray;
-    if (viewMode === 'pinterest' || viewMode === 'irregular') {
-      currentArray = combinedMedia;
-    } else if (viewMode === 'pics-only') {
-      currentArray = staticImages;
-    } else {
-      currentArray = gifs;
-    }
-    const currentIndex = currentArray.findIndex(g => g.id === lightboxGif.id);
-    const previousIndex = (currentIndex - 1 + currentArray.length) % currentArray.length;
-    const prevItem = currentArray[previousIndex];
-    setLightboxGif({ id: prevItem.id, name: prevItem.name, path: prevItem.path });
+    const nextItem = findGalleryItem(stepOrder(lightboxOrder(), lightboxGif.id, direction));
+    if (nextItem) setLightboxGif(nextItem);
   };
 
+  const showNextGif = () => stepLightbox(1);
+  const showPreviousGif = () => stepLightbox(-1);
 
+  // Loaded ahead so stepping through doesn't wait on the network
+  const lightboxNeighbours = isLightboxOpen && lightboxGif
+    ? neighbourIds(lightboxOrder(), lightboxGif.id).map(findGalleryItem).filter((item): item is GifItem => item !== null)
+    : [];
 
   return (
     <div className="app">
@@ -242,7 +454,7 @@ function App() {
         style={{ width: `${scrollProgress}%` }}
       />
       
-      <main className="main-content">
+      <main className="main-content" ref={mainRef}>
         <MusicPlayer
           tracks={musicTracks}
           onLayoutToggle={() => toggleLayout()}
@@ -255,10 +467,20 @@ function App() {
           isPlaying={isPlaying}
           onTrackPlay={playTrack}
           onPlayingChange={setIsPlaying}
+          playlist={playlist}
+          onPlaylistChange={handlePlaylistChange}
+          onNext={() => skipTrack(1)}
+          onPrevious={() => skipTrack(-1)}
+          onTrackEnd={handleTrackEnd}
+          onLoop={() => setTrackBoundary(prev => prev + 1)}
+          onDurationChange={setTrackLength}
+          isRecording={isRecording}
+          onRecordToggle={toggleRecording}
+          onReset={handleReset}
         />
         {viewMode === 'list' ? (
           <section className="gallery-section" key={`list-${imageRefreshKey}`}>
-            {gifs.map((gif, index) => (
+            {galleryGifs.map((gif, index) => (
               <GifDisplay 
                 key={`${gif.id}-${imageRefreshKey}`} 
                 gif={gif} 
@@ -270,21 +492,30 @@ function App() {
         ) : viewMode === 'stack' ? (
           <CollageView 
             key={`stack-${imageRefreshKey}`}
-            gifs={gifs} 
+            gifs={galleryGifs} 
             onGifClick={openLightbox}
             variant="large"
+            isAudioReactive={isPlaying}
           />
         ) : viewMode === 'pinterest' ? (
           <PinterestGallery
             key={`pinterest-${imageRefreshKey}`}
-            media={combinedMedia}
+            media={galleryMedia}
             onMediaClick={handleMediaClick}
+            seed={layoutSeed}
           />
         ) : viewMode === 'irregular' ? (
           <IrregularCollage 
             key={`irregular-${imageRefreshKey}`}
-            media={combinedMedia}
+            media={galleryMedia}
             onMediaClick={handleMediaClick}
+            seed={layoutSeed}
+          />
+        ) : viewMode === 'simulation' ? (
+          <LifeSimulation
+            key={`simulation-${imageRefreshKey}`}
+            seed={simulationSeed}
+            onAddToGallery={handleAddToGallery}
           />
         ) : viewMode === 'pics-only' ? (
           <section className="gallery-section" key={`pics-${imageRefreshKey}`}>
@@ -293,22 +524,32 @@ function App() {
                 key={`${image.id}-${imageRefreshKey}`} 
                 image={image} 
                 index={index} 
-                onClick={() => openLightbox({ id: image.id, name: image.name, path: image.path })}
+                onClick={() => openLightbox(image)}
               />
             ))}
           </section>
         ) : (
           <CollageView 
             key={`large-${imageRefreshKey}`}
-            gifs={gifs} 
+            gifs={galleryGifs} 
             onGifClick={openLightbox}
             variant="stack"
+            isAudioReactive={isPlaying}
+          />
+        )}
+        {SEEDED_LAYOUTS.includes(viewMode) && (
+          <SeedBadge
+            seed={layoutSeed}
+            isPinned={isSeedPinned}
+            onSeedChange={setLayoutSeed}
+            onPinnedChange={setIsSeedPinned}
+            onReroll={() => setLayoutSeed(randomSeed())}
           />
         )}
       </main>
 
-      {viewMode !== 'pics-only' && viewMode !== 'pinterest' && (
-        <div className="ambient-effects">
+      {viewMode !== 'pics-only' && viewMode !== 'pinterest' && viewMode !== 'simulation' && (
+        <div className="ambient-effects" ref={ambientRef}>
           <div className="floating-particle"></div>
           <div className="floating-particle"></div>
           <div className="floating-particle"></div>
@@ -322,6 +563,10 @@ function App() {
         onClose={closeLightbox}
         onNext={showNextGif}
         onPrevious={showPreviousGif}
+        preload={lightboxNeighbours}
+        loopLength={isPlaying ? trackLength : 0}
+        trackBoundary={trackBoundary}
+        onSimulate={handleSimulateFrom}
       />
     </div>
   );
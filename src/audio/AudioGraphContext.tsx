@@ -0,0 +1,46 @@
+import React, { createContext, useCallback, useContext, useRef, useState } from 'react';
+
+// The live Web Audio graph owned by MusicPlayer, so other features can tap its output
+export interface AudioGraph {
+  context: AudioContext;
+  output: AudioNode; // everything the listener hears passes through this node
+  analyser: AnalyserNode; // taps the sources before the volume control
+}
+
+// 'pending' until the soundtrack picks a backend on the first gesture; 'unavailable' when
+// that backend has no graph, as with the HTML5 audio element fallback
+export type AudioGraphStatus = 'pending' | 'ready' | 'unavailable';
+
+interface AudioGraphContextValue {
+  registerGraph: (graph: AudioGraph | null) => void;
+  getGraph: () => AudioGraph | null;
+  graphStatus: AudioGraphStatus;
+}
+
+const AudioGraphContext = createContext<AudioGraphContextValue>({
+  registerGraph: () => {},
+  getGraph: () => null,
+  graphStatus: 'pending'
+});
+
+export const AudioGraphProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // The graph itself is a ref - consumers read it on demand. Only its status is state, so
+  // controls that need a graph can say when there isn't one.
+  const graphRef = useRef<AudioGraph | null>(null);
+  const [graphStatus, setGraphStatus] = useState<AudioGraphStatus>('pending');
+
+  const registerGraph = useCallback((graph: AudioGraph | null) => {
+    graphRef.current = graph;
+    setGraphStatus(graph ? 'ready' : 'unavailable');
+  }, []);
+
+  const getGraph = useCallback(() => graphRef.current, []);
+
+  return (
+    <AudioGraphContext.Provider value={{ registerGraph, getGraph, graphStatus }}>
+      {children}
+    </AudioGraphContext.Provider>
+  );
+};
+
+export const useAudioGraph = () => useContext(AudioGraphContext);
@@ -0,0 +1,68 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef } from 'react';
+import { useAudioGraph } from './AudioGraphContext';
+import { AudioLevels, createLevelReader, SILENT_LEVELS } from './audioAnalysis';
+
+export type AudioLevelsListener = (levels: AudioLevels) => void;
+
+interface AudioLevelsContextValue {
+  subscribe: (listener: AudioLevelsListener) => () => void;
+}
+
+const AudioLevelsContext = createContext<AudioLevelsContextValue>({
+  subscribe: () => () => {}
+});
+
+// Reads the analyser once per frame and hands the levels to every subscriber.
+// Listeners are called outside React - they should write to refs or styles, not set state each frame.
+// The HTML5 audio fallback has no graph, so there it reports silence.
+export const AudioLevelsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { getGraph } = useAudioGraph();
+  const listenersRef = useRef<Set<AudioLevelsListener>>(new Set());
+  const frameRef = useRef<number | null>(null);
+  const readerRef = useRef<{ analyser: AnalyserNode; read: () => AudioLevels } | null>(null);
+
+  const tick = useCallback(() => {
+    const analyser = getGraph()?.analyser ?? null;
+    if (analyser && readerRef.current?.analyser !== analyser) {
+      readerRef.current = { analyser, read: createLevelReader(analyser) };
+    }
+
+    const levels = analyser ? readerRef.current!.read() : SILENT_LEVELS;
+    listenersRef.current.forEach(listener => listener(levels));
+    frameRef.current = requestAnimationFrame(tick);
+  }, [getGraph]);
+
+  // The loop only runs while something is listening
+  const subscribe = useCallback((listener: AudioLevelsListener) => {
+    listenersRef.current.add(listener);
+    if (frameRef.current === null) {
+      frameRef.current = requestAnimationFrame(tick);
+    }
+
+    return () => {
+      listenersRef.current.delete(listener);
+      if (listenersRef.current.size === 0 && frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [tick]);
+
+  return (
+    <AudioLevelsContext.Provider value={{ subscribe }}>
+      {children}
+    </AudioLevelsContext.Provider>
+  );
+};
+
+// Calls `listener` every frame with the current levels while `enabled`
+export const useAudioLevels = (listener: AudioLevelsListener, enabled = true) => {
+  const { subscribe } = useContext(AudioLevelsContext);
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribe(levels => listenerRef.current(levels));
+  }, [subscribe, enabled]);
+};
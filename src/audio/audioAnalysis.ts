@@ -0,0 +1,83 @@
+// Turns an AnalyserNode's raw data into a few numbers visuals can react to.
+// Every level is 0-1, measured before the volume control so visuals don't fade with the slider.
+export interface AudioLevels {
+  amplitude: number; // RMS of the waveform
+  bass: number;
+  mid: number;
+  treble: number;
+  onset: boolean; // a sudden rise in energy this frame - a note or a beat starting
+}
+
+export const SILENT_LEVELS: AudioLevels = { amplitude: 0, bass: 0, mid: 0, treble: 0, onset: false };
+
+// Band edges in Hz
+const BANDS = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 8000]
+} as const;
+
+const FLUX_HISTORY = 43; // frames, about 0.7s at 60fps
+const ONSET_SENSITIVITY = 1.5; // flux must beat the recent average by this factor
+const ONSET_FLOOR = 0.01; // ignore tiny rises during near-silence
+const MIN_ONSET_GAP = 120; // ms
+
+export const createAnalyser = (context: BaseAudioContext): AnalyserNode => {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  analyser.smoothingTimeConstant = 0.8;
+  return analyser;
+};
+
+// A reader keeps its buffers and onset history between calls, so make one per analyser
+export const createLevelReader = (analyser: AnalyserNode) => {
+  const frequencies = new Uint8Array(analyser.frequencyBinCount);
+  const previous = new Uint8Array(analyser.frequencyBinCount);
+  const waveform = new Uint8Array(analyser.fftSize);
+  const fluxHistory: number[] = [];
+  let lastOnset = 0;
+
+  const binWidth = analyser.context.sampleRate / analyser.fftSize;
+  const bandEnergy = ([low, high]: readonly [number, number]) => {
+    const start = Math.max(1, Math.floor(low / binWidth));
+    const end = Math.min(frequencies.length, Math.ceil(high / binWidth));
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += frequencies[i];
+    return end > start ? sum / ((end - start) * 255) : 0;
+  };
+
+  return (now: number = performance.now()): AudioLevels => {
+    analyser.getByteFrequencyData(frequencies);
+    analyser.getByteTimeDomainData(waveform);
+
+    let squares = 0;
+    for (let i = 0; i < waveform.length; i++) {
+      const sample = (waveform[i] - 128) / 128;
+      squares += sample * sample;
+    }
+
+    // Spectral flux: how much louder each bin got since the last frame
+    let flux = 0;
+    for (let i = 0; i < frequencies.length; i++) {
+      const rise = frequencies[i] - previous[i];
+      if (rise > 0) flux += rise;
+    }
+    flux /= frequencies.length * 255;
+    previous.set(frequencies);
+
+    const average = fluxHistory.length > 0 ? fluxHistory.reduce((sum, value) => sum + value, 0) / fluxHistory.length : 0;
+    fluxHistory.push(flux);
+    if (fluxHistory.length > FLUX_HISTORY) fluxHistory.shift();
+
+    const onset = flux > ONSET_FLOOR && flux > average * ONSET_SENSITIVITY && now - lastOnset >= MIN_ONSET_GAP;
+    if (onset) lastOnset = now;
+
+    return {
+      amplitude: Math.min(1, Math.sqrt(squares / waveform.length)),
+      bass: bandEnergy(BANDS.bass),
+      mid: bandEnergy(BANDS.mid),
+      treble: bandEnergy(BANDS.treble),
+      onset
+    };
+  };
+};
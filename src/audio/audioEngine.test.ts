@@ -0,0 +1,235 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AudioEngineOptions, createAudioEngine, EngineTrack } from './audioEngine';
+import { createWebAudioBackend } from './webAudioBackend';
+
+// Just enough of AudioContext for the Web Audio backend, with every buffer source kept
+// so a test can see what actually made sound
+const createFakeContext = () => {
+  const param = () => ({
+    value: 1,
+    cancelScheduledValues: vi.fn(),
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn()
+  });
+  const node = () => ({ gain: param(), connect: vi.fn(), disconnect: vi.fn() });
+
+  const sources: { path: string; isPlaying: boolean }[] = [];
+  const context = {
+    state: 'suspended' as AudioContextState,
+    currentTime: 0,
+    destination: {},
+    resume: vi.fn(async () => {
+      context.state = 'running';
+    }),
+    close: vi.fn(async () => {
+      context.state = 'closed';
+    }),
+    createGain: node,
+    createAnalyser: node,
+    createBufferSource: () => {
+      const source = {
+        ...node(),
+        buffer: null as { path: string; duration: number } | null,
+        loop: false,
+        onended: null as (() => void) | null,
+        start: vi.fn(() => {
+          sources.push(record);
+        }),
+        stop: vi.fn(() => {
+          record.isPlaying = false;
+        })
+      };
+      const record = {
+        get path() {
+          return source.buffer?.path ?? '';
+        },
+        isPlaying: true
+      };
+      return source;
+    },
+    decodeAudioData: async (data: ArrayBuffer) => ({ path: new TextDecoder().decode(data), duration: 60 })
+  };
+
+  return { context, sources, playing: () => sources.filter(source => source.isPlaying).map(source => source.path) };
+};
+
+// Fetches that only finish when the test says so
+const createPendingFetches = () => {
+  const pending = new Map<string, () => void>();
+  const fetchAudio = (path: string) => new Promise<ArrayBuffer>(resolve => {
+    pending.set(path, () => resolve(new TextEncoder().encode(path).buffer as ArrayBuffer));
+  });
+  // Lets the engine get as far as it can: unlocking, fetching, decoding, starting
+  const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+  const finish = async (path: string) => {
+    await settle();
+    pending.get(path)?.();
+    pending.delete(path);
+    await settle();
+  };
+  return { fetchAudio, finish };
+};
+
+const setUp = (options: Partial<AudioEngineOptions> = {}) => {
+  const fake = createFakeContext();
+  const fetches = createPendingFetches();
+  const createContext = vi.fn(() => fake.context as unknown as AudioContext);
+  const engine = createAudioEngine({
+    backends: [() => createWebAudioBackend({ createContext, fetchAudio: fetches.fetchAudio })],
+    resolvePath: path => path,
+    ...options
+  });
+  return { engine, createContext, ...fake, ...fetches };
+};
+
+// Long enough for a few polls at the 5ms interval the timing tests use
+const waitForPoll = () => new Promise(resolve => setTimeout(resolve, 20));
+
+const dawn: EngineTrack = { id: 'dawn', path: 'dawn.m4a' };
+const dusk: EngineTrack = { id: 'dusk', path: 'dusk.m4a' };
+
+describe('createAudioEngine', () => {
+  let dispose = () => {};
+  afterEach(() => dispose());
+
+  it('starts one source when play is called twice while loading', async () => {
+    const { engine, finish, playing } = setUp();
+    dispose = engine.dispose;
+
+    engine.play(dawn);
+    engine.play(dawn);
+    await finish('dawn.m4a');
+
+    expect(playing()).toEqual(['dawn.m4a']);
+    expect(engine.getState().status).toBe('playing');
+  });
+
+  it('plays only the newer track when a second starts while the first loads', async () => {
+    const { engine, finish, playing } = setUp();
+    dispose = engine.dispose;
+
+    engine.play(dawn);
+    engine.play(dusk);
+    await finish('dawn.m4a');
+    await finish('dusk.m4a');
+
+    expect(playing()).toEqual(['dusk.m4a']);
+    expect(engine.getState().trackId).toBe('dusk');
+  });
+
+  it('stays silent when paused during loading', async () => {
+    const { engine, finish, sources } = setUp();
+    dispose = engine.dispose;
+
+    engine.play(dawn);
+    engine.pause();
+    await finish('dawn.m4a');
+
+    expect(sources).toEqual([]);
+    expect(engine.getState()).toMatchObject({ status: 'paused', trackId: 'dawn' });
+  });
+
+  it('ignores a load that finishes after the cue changed', async () => {
+    const { engine, finish, sources } = setUp();
+    dispose = engine.dispose;
+
+    engine.play(dawn);
+    engine.cue(dusk);
+    await finish('dawn.m4a');
+
+    expect(sources).toEqual([]);
+    expect(engine.getState()).toMatchObject({ status: 'paused', trackId: 'dusk' });
+  });
+
+  it('resumes a paused track with a single source', async () => {
+    const { engine, finish, playing } = setUp();
+    dispose = engine.dispose;
+
+    engine.play(dawn);
+    await finish('dawn.m4a');
+    engine.pause();
+    await engine.play(dawn);
+
+    expect(playing()).toEqual(['dawn.m4a']);
+  });
+
+  it('waits for a gesture before creating the AudioContext', () => {
+    const { engine, createContext, context } = setUp();
+    dispose = engine.dispose;
+
+    engine.preload([dawn, dusk]);
+    expect(createContext).not.toHaveBeenCalled();
+
+    // Resuming has to begin synchronously, while the gesture handler is still running
+    engine.unlock();
+    expect(createContext).toHaveBeenCalledTimes(1);
+    expect(context.resume).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports each time the track wraps back to its start', async () => {
+    const onLoop = vi.fn();
+    const { engine, finish, context } = setUp({ onLoop, pollInterval: 5 });
+    dispose = engine.dispose;
+    engine.play(dawn);
+    await finish('dawn.m4a');
+    context.currentTime = 59; // the fake buffers are 60s long
+    await waitForPoll();
+    expect(onLoop).not.toHaveBeenCalled();
+
+    context.currentTime = 61;
+    await waitForPoll();
+    expect(onLoop).toHaveBeenCalledTimes(1);
+  });
+
+  describe('track boundaries', () => {
+    // Every signal the engine gives, in order - one entry per boundary it reports
+    const setUpBoundaries = async (loopsPerTrack: number) => {
+      const events: string[] = [];
+      const setup = setUp({
+        onLoop: () => events.push('loop'),
+        onTrackEnd: () => events.push('end'),
+        pollInterval: 5
+      });
+      dispose = setup.engine.dispose;
+      setup.engine.setLoopsPerTrack(loopsPerTrack);
+      setup.engine.play(dawn);
+      await setup.finish('dawn.m4a');
+      const playTo = async (seconds: number) => {
+        setup.context.currentTime = seconds; // the fake buffers are 60s long
+        await waitForPoll();
+      };
+      return { events, playTo };
+    };
+
+    it('reports an early end and not the wrap that follows it', async () => {
+      const { events, playTo } = await setUpBoundaries(1);
+
+      await playTo(59.8);
+      expect(events).toEqual(['end']);
+
+      await playTo(61);
+      expect(events).toEqual(['end']);
+    });
+
+    it('reports loops before the end, each boundary once', async () => {
+      const { events, playTo } = await setUpBoundaries(2);
+
+      await playTo(59);
+      await playTo(61);
+      expect(events).toEqual(['loop']);
+
+      await playTo(119.8);
+      await playTo(121);
+      expect(events).toEqual(['loop', 'end']);
+    });
+
+    it('counts the loops again when nothing moves on after the end', async () => {
+      const { events, playTo } = await setUpBoundaries(1);
+
+      await playTo(59.8);
+      await playTo(61);
+      await playTo(119.8);
+      expect(events).toEqual(['end', 'end']);
+    });
+  });
+});
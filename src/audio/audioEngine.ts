@@ -0,0 +1,336 @@
+import { AudioGraph } from './AudioGraphContext';
+
+// Soundtrack playback behind one state machine. Nothing here knows about React:
+// MusicPlayer drives it through useAudioEngine, and backends can be swapped for fakes.
+//
+//   idle ──play──▶ loading ──▶ playing ◀──play── paused
+//     ▲               │           │ pause          ▲
+//     └────stop───────┴───────────┴────────────────┘
+//                  failure ▶ error (play again to retry)
+export type EngineStatus = 'idle' | 'loading' | 'playing' | 'paused' | 'error';
+
+export interface EngineTrack {
+  id: string;
+  path: string;
+}
+
+export interface EngineState {
+  status: EngineStatus;
+  trackId: string | null;
+  position: number; // seconds into the track
+  duration: number; // seconds, 0 until known
+  error: string | null;
+}
+
+// One way of making sound. A backend plays a single voice at a time; starting another
+// releases the current one with the same fade, which is how crossfades happen.
+export interface PlaybackBackend {
+  readonly kind: string;
+  graph: () => AudioGraph | null; // only Web Audio backends have one
+  unlock: () => Promise<boolean>; // false when this backend can't make sound here
+  load: (path: string) => Promise<void>;
+  play: (path: string, offset: number, fadeSeconds: number) => Promise<void>;
+  stop: (fadeSeconds: number) => void;
+  seek: (seconds: number) => void;
+  position: () => number;
+  duration: (path: string) => number;
+  setVolume: (volume: number) => void;
+  dispose: () => void;
+}
+
+// Returns null when the browser lacks what the backend needs
+export type BackendFactory = () => PlaybackBackend | null;
+
+export interface AudioEngineOptions {
+  backends: BackendFactory[]; // in order of preference
+  resolvePath?: (path: string) => string;
+  onGraphChange?: (graph: AudioGraph | null) => void;
+  onTrackEnd?: () => void; // the track has played its loops - see setLoopsPerTrack
+  onLoop?: () => void; // the track has wrapped back to its start
+  pollInterval?: number; // ms
+}
+
+export interface AudioEngine {
+  getState: () => EngineState;
+  subscribe: (listener: (state: EngineState) => void) => () => void;
+  preload: (tracks: EngineTrack[]) => void;
+  unlock: () => Promise<boolean>; // false when nothing can play here
+  play: (track: EngineTrack) => Promise<void>;
+  cue: (track: EngineTrack) => void;
+  pause: () => void;
+  stop: () => void;
+  seek: (seconds: number) => void;
+  setVolume: (volume: number) => void;
+  setCrossfade: (seconds: number) => void;
+  setLoopsPerTrack: (loops: number | null) => void;
+  dispose: () => void;
+}
+
+const IDLE_STATE: EngineState = { status: 'idle', trackId: null, position: 0, duration: 0, error: null };
+const MIN_END_LEAD = 0.3; // seconds - the poll only runs every 250ms
+
+// Ogg doesn't play everywhere (older Safari); every track has an .m4a alongside it
+export const playablePath = (path: string, canPlayType: (type: string) => string = defaultCanPlayType) => {
+  if (path.endsWith('.ogg') && canPlayType('audio/ogg') === '') {
+    return path.replace(/\.ogg$/, '.m4a');
+  }
+  return path;
+};
+
+const defaultCanPlayType = (type: string) => {
+  return typeof Audio === 'undefined' ? '' : new Audio().canPlayType(type);
+};
+
+export const createAudioEngine = (options: AudioEngineOptions): AudioEngine => {
+  const { backends, resolvePath = playablePath, onGraphChange, onTrackEnd, onLoop, pollInterval = 250 } = options;
+
+  let backend: PlaybackBackend | null = null;
+  let backendIndex = 0;
+  let preloaded: EngineTrack[] = [];
+  let current: EngineTrack | null = null;
+  let offset = 0; // where the current track resumes from
+  // Bumped by every play, pause, cue and stop. An async step that finds it changed
+  // was overtaken and bails out - this is what keeps two sources from ever starting.
+  let request = 0;
+  let volume = 1;
+  let crossfade = 0;
+  let loopsPerTrack: number | null = null;
+  // Backends loop tracks natively; the poll counts the wraps to know when to move on
+  let loopCount = { loops: 0, lastPosition: 0, ended: false };
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let state = IDLE_STATE;
+  const listeners = new Set<(state: EngineState) => void>();
+
+  const setState = (changes: Partial<EngineState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const pathOf = (track: EngineTrack) => resolvePath(track.path);
+
+  const preloadAll = (target: PlaybackBackend) => {
+    for (const track of preloaded) {
+      target.load(pathOf(track)).catch(error => {
+        console.warn(`Could not preload ${track.path} with ${target.kind}:`, error);
+      });
+    }
+  };
+
+  // The first backend that's available here, created on demand
+  const getBackend = () => {
+    if (backend) return backend;
+
+    while (!backend && backendIndex < backends.length) {
+      backend = backends[backendIndex]();
+      if (!backend) backendIndex++;
+    }
+    if (backend) {
+      backend.setVolume(volume);
+      preloadAll(backend);
+      onGraphChange?.(backend.graph());
+    }
+    return backend;
+  };
+
+  const releaseBackend = () => {
+    if (!backend) return;
+    backend.dispose();
+    backend = null;
+    onGraphChange?.(null);
+  };
+
+  // The current backend can't play here after all - move on to the next one
+  const fallBack = () => {
+    console.warn(`${backend?.kind ?? 'Audio'} playback is unavailable, falling back`);
+    releaseBackend();
+    backendIndex++;
+    return getBackend();
+  };
+
+  // The backend's own unlock starts synchronously, so calling this from a gesture handler
+  // counts as the gesture. If a concurrent caller has already fallen back, that stands.
+  const unlockBackend = async (target: PlaybackBackend | null) => {
+    if (!target || (await target.unlock())) return target;
+    return backend === target ? fallBack() : getBackend();
+  };
+
+  const resetLoops = (position = 0) => {
+    loopCount = { loops: 0, lastPosition: position, ended: false };
+  };
+
+  // Signals the end early enough for the crossfade to finish as the last loop does;
+  // the outgoing track keeps looping underneath if it overruns. Each boundary is reported
+  // once - the wrap that follows an early end is the same boundary, not another loop.
+  const countLoops = (position: number, duration: number) => {
+    if (position + 0.5 < loopCount.lastPosition) {
+      if (loopCount.ended) {
+        // Nothing moved on, so the track plays its loops over again
+        resetLoops(position);
+      } else {
+        loopCount.loops += 1;
+        onLoop?.();
+      }
+    }
+    loopCount.lastPosition = position;
+
+    if (loopsPerTrack === null || loopCount.ended || duration <= 0) return;
+    const remaining = (loopsPerTrack - loopCount.loops) * duration - position;
+    if (remaining <= Math.max(MIN_END_LEAD, Math.min(crossfade, duration / 2))) {
+      loopCount.ended = true;
+      onTrackEnd?.();
+    }
+  };
+
+  const poll = () => {
+    if (!backend || !current || state.status !== 'playing') return;
+    const position = backend.position();
+    const duration = backend.duration(pathOf(current));
+    setState({ position, duration });
+    countLoops(position, duration);
+  };
+
+  const startPolling = () => {
+    if (pollTimer === null) pollTimer = setInterval(poll, pollInterval);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer !== null) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+
+  const play = async (track: EngineTrack) => {
+    const isSameTrack = current?.id === track.id;
+    if (isSameTrack && (state.status === 'playing' || state.status === 'loading')) return;
+
+    // A paused track resumes in place; a new one starts from the top, crossfading
+    const from = isSameTrack ? offset : 0;
+    const fadeSeconds = isSameTrack ? 0 : crossfade;
+    const token = ++request;
+    current = track;
+    offset = from;
+    if (!isSameTrack) resetLoops();
+
+    let target = getBackend();
+    setState({
+      status: 'loading',
+      trackId: track.id,
+      position: from,
+      duration: target?.duration(pathOf(track)) ?? 0,
+      error: null
+    });
+
+    try {
+      target = await unlockBackend(target);
+      if (token !== request) return;
+      if (!target) {
+        throw new Error('This browser has no way to play audio');
+      }
+
+      const path = pathOf(track);
+      await target.load(path);
+      if (token !== request) return;
+
+      await target.play(path, from, fadeSeconds);
+      if (token !== request) return;
+
+      setState({ status: 'playing', duration: target.duration(path) });
+      startPolling();
+    } catch (error) {
+      // A pause or a newer track cut this one off - not a failure
+      if (token !== request) return;
+      console.error(`Failed to play ${track.path}:`, error);
+      backend?.stop(0);
+      setState({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const pause = () => {
+    request++;
+    stopPolling();
+    if (backend && state.status === 'playing') {
+      offset = backend.position();
+    }
+    backend?.stop(0);
+    setState({ status: current ? 'paused' : 'idle', position: offset });
+  };
+
+  // Select a track without playing it. The current one fades out if it's a different track.
+  const cue = (track: EngineTrack) => {
+    if (current?.id === track.id) {
+      pause();
+      return;
+    }
+
+    request++;
+    stopPolling();
+    backend?.stop(crossfade);
+    current = track;
+    offset = 0;
+    resetLoops();
+    setState({ status: 'paused', trackId: track.id, position: 0, duration: backend?.duration(pathOf(track)) ?? 0, error: null });
+  };
+
+  const stop = () => {
+    request++;
+    stopPolling();
+    backend?.stop(crossfade);
+    current = null;
+    offset = 0;
+    setState(IDLE_STATE);
+  };
+
+  const seek = (seconds: number) => {
+    if (!current) return;
+
+    offset = seconds;
+    loopCount.lastPosition = seconds; // a jump back isn't a completed loop
+    if (backend && state.status === 'playing') {
+      backend.seek(seconds);
+    }
+    setState({ position: seconds });
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    // Creating a backend can mean creating an AudioContext, which browsers only let start
+    // from a gesture - so the tracks wait for the first unlock or play
+    preload: (tracks) => {
+      preloaded = tracks;
+      if (backend) preloadAll(backend);
+    },
+    unlock: async () => (await unlockBackend(getBackend())) !== null,
+    play,
+    cue,
+    pause,
+    stop,
+    seek,
+    setVolume: (next) => {
+      volume = next;
+      backend?.setVolume(next);
+    },
+    setCrossfade: (seconds) => {
+      crossfade = seconds;
+    },
+    setLoopsPerTrack: (loops) => {
+      loopsPerTrack = loops;
+    },
+    // Releases every resource. The engine stays usable: the next call sets it up again.
+    dispose: () => {
+      request++;
+      stopPolling();
+      releaseBackend();
+      backendIndex = 0;
+      current = null;
+      offset = 0;
+      setState(IDLE_STATE);
+    }
+  };
+};
@@ -0,0 +1,120 @@
+import { PlaybackBackend } from './audioEngine';
+
+export interface ElementBackendOptions {
+  createElement?: () => HTMLAudioElement;
+}
+
+const FADE_STEP = 50; // ms
+
+// One looping <audio> element per track. Used where Web Audio can't start, e.g. a
+// context that stays suspended. It has no graph, so nothing downstream can tap it.
+export const createElementBackend = (options: ElementBackendOptions = {}): PlaybackBackend | null => {
+  const { createElement = () => new Audio() } = options;
+  if (!options.createElement && typeof Audio === 'undefined') return null;
+
+  const elements = new Map<string, HTMLAudioElement>();
+  const fadeTimers = new Map<HTMLAudioElement, ReturnType<typeof setInterval>>();
+  let voice: HTMLAudioElement | null = null;
+  let volume = 1;
+
+  const elementFor = (path: string) => {
+    let audio = elements.get(path);
+    if (!audio) {
+      audio = createElement();
+      audio.preload = 'auto';
+      audio.loop = true;
+      audio.crossOrigin = 'anonymous';
+      audio.volume = volume;
+      audio.src = path;
+      audio.load();
+      elements.set(path, audio);
+    }
+    return audio;
+  };
+
+  const cancelFade = (audio: HTMLAudioElement) => {
+    const timer = fadeTimers.get(audio);
+    if (timer !== undefined) {
+      clearInterval(timer);
+      fadeTimers.delete(audio);
+    }
+  };
+
+  // Elements have no gain nodes, so fades step the volume. `target` is read on every
+  // step so volume changes mid-fade are followed.
+  const fade = (audio: HTMLAudioElement, target: () => number, seconds: number, onDone?: () => void) => {
+    cancelFade(audio);
+    const from = audio.volume;
+    const startedAt = performance.now();
+
+    const timer = setInterval(() => {
+      const progress = Math.min(1, (performance.now() - startedAt) / (seconds * 1000));
+      audio.volume = Math.max(0, Math.min(1, from + (target() - from) * progress));
+      if (progress >= 1) {
+        cancelFade(audio);
+        onDone?.();
+      }
+    }, FADE_STEP);
+    fadeTimers.set(audio, timer);
+  };
+
+  const release = (fadeSeconds: number) => {
+    const audio = voice;
+    if (!audio) return;
+    voice = null;
+
+    if (fadeSeconds <= 0 || audio.paused) {
+      cancelFade(audio);
+      audio.pause();
+      return;
+    }
+    fade(audio, () => 0, fadeSeconds, () => audio.pause());
+  };
+
+  return {
+    kind: 'HTML5 audio',
+    graph: () => null,
+    unlock: async () => true,
+    // Mobile browsers ignore preloading until a gesture, so waiting for the element to
+    // buffer could hang - play() buffers instead
+    load: async (path) => {
+      elementFor(path);
+    },
+    play: async (path, offset, fadeSeconds) => {
+      const audio = elementFor(path);
+      if (audio !== voice) release(fadeSeconds);
+      cancelFade(audio);
+
+      audio.currentTime = offset;
+      audio.volume = fadeSeconds > 0 ? 0 : volume;
+      voice = audio;
+      await audio.play();
+      if (fadeSeconds > 0) {
+        fade(audio, () => volume, fadeSeconds);
+      }
+    },
+    stop: release,
+    seek: (seconds) => {
+      if (voice) voice.currentTime = seconds;
+    },
+    position: () => voice?.currentTime ?? 0,
+    duration: (path) => {
+      const duration = elements.get(path)?.duration;
+      return duration !== undefined && Number.isFinite(duration) ? duration : 0;
+    },
+    setVolume: (next) => {
+      volume = next;
+      if (voice && !fadeTimers.has(voice)) voice.volume = next;
+    },
+    dispose: () => {
+      fadeTimers.forEach(timer => clearInterval(timer));
+      fadeTimers.clear();
+      elements.forEach(audio => {
+        audio.pause();
+        audio.src = '';
+      });
+      elements.clear();
+      voice = null;
+    }
+  };
+};
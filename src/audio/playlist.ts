@@ -0,0 +1,48 @@
+import { createRandom, randomSeed, shuffle } from '../utils/random';
+
+// How the soundtrack moves between tracks
+export type PlaybackMode = 'loop-one' | 'in-order' | 'shuffle' | 'repeat';
+
+export const PLAYBACK_MODES: PlaybackMode[] = ['loop-one', 'in-order', 'shuffle', 'repeat'];
+
+export interface PlaylistSettings {
+  mode: PlaybackMode;
+  repeatCount: number; // loops of each track before advancing, in 'repeat' mode
+}
+
+export const DEFAULT_PLAYLIST: PlaylistSettings = { mode: 'loop-one', repeatCount: 2 };
+
+export const MAX_REPEAT_COUNT = 99;
+
+export const isPlaybackMode = (value: unknown): value is PlaybackMode => {
+  return typeof value === 'string' && (PLAYBACK_MODES as string[]).includes(value);
+};
+
+// How many times a track loops before the queue moves on, or null to loop forever
+export const loopsPerTrack = (settings: PlaylistSettings): number | null => {
+  switch (settings.mode) {
+    case 'loop-one': return null;
+    case 'repeat': return Math.max(1, settings.repeatCount);
+    default: return 1;
+  }
+};
+
+// Track ids in the order they'll play. Shuffle keeps `current` first so switching modes
+// doesn't interrupt the track that's playing.
+export const buildQueue = (trackIds: string[], mode: PlaybackMode, current: string | null = null): string[] => {
+  if (mode !== 'shuffle') return [...trackIds];
+
+  const rest = shuffle(trackIds.filter(id => id !== current), createRandom(randomSeed()));
+  return current && trackIds.includes(current) ? [current, ...rest] : rest;
+};
+
+// The id before or after `current`, wrapping around. With nothing playing, next starts at the top.
+export const stepQueue = (queue: string[], current: string | null, direction: 1 | -1): string | null => {
+  if (queue.length === 0) return null;
+
+  const index = current ? queue.indexOf(current) : -1;
+  if (index === -1) {
+    return direction === 1 ? queue[0] : queue[queue.length - 1];
+  }
+  return queue[(index + direction + queue.length) % queue.length];
+};
@@ -0,0 +1,186 @@
+// Generative audio from the Game of Life - the inverse of the soundtrack. Each new generation
+// is measured and turned into plucked notes on a scale, played on the soundtrack's AudioContext.
+
+// What drives the pitches
+export type SonifyMapping = 'population' | 'changes' | 'columns';
+
+export const SONIFY_MAPPINGS: SonifyMapping[] = ['population', 'changes', 'columns'];
+
+// Semitone offsets within an octave
+export const SCALES = {
+  pentatonic: [0, 3, 5, 7, 10],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  major: [0, 2, 4, 5, 7, 9, 11],
+  'whole-tone': [0, 2, 4, 6, 8, 10]
+};
+
+export type ScaleName = keyof typeof SCALES;
+
+export const SCALE_NAMES = Object.keys(SCALES) as ScaleName[];
+
+export interface FrameStats {
+  population: number;
+  births: number;
+  deaths: number;
+  columns: number[]; // share of each column band that's alive, left to right
+}
+
+export interface Note {
+  frequency: number;
+  gain: number; // 0-1
+  delay: number; // seconds after the frame
+}
+
+const ROOT_MIDI = 45; // A2, in the guitar's range
+const DEGREES = 15; // three octaves of a pentatonic scale
+const COLUMN_BANDS = 8;
+const COLUMN_THRESHOLD = 0.02;
+const STRUM_GAP = 0.035; // seconds between strings
+const MIN_FRAME_GAP = 0.12; // seconds - fast simulations would otherwise be a drone
+const MAX_VOICES = 24;
+const NOTE_LENGTH = 1.6; // seconds of decay
+
+// Only state 1 is alive - Generations rules use higher states for dying cells
+export const measureFrame = (cells: Uint8Array, previous: Uint8Array | null, width: number): FrameStats => {
+  const columns = new Array<number>(COLUMN_BANDS).fill(0);
+  const height = cells.length / width;
+  let population = 0;
+  let births = 0;
+  let deaths = 0;
+
+  for (let i = 0; i < cells.length; i++) {
+    const alive = cells[i] === 1;
+    const wasAlive = previous ? previous[i] === 1 : alive;
+    if (alive) {
+      population++;
+      columns[Math.floor(((i % width) * COLUMN_BANDS) / width)]++;
+    }
+    if (alive && !wasAlive) births++;
+    if (!alive && wasAlive) deaths++;
+  }
+
+  const bandSize = (width / COLUMN_BANDS) * height;
+  return { population, births, deaths, columns: columns.map(count => count / bandSize) };
+};
+
+// Frequency of a scale degree counted up from the root, across octaves
+export const degreeFrequency = (scale: number[], degree: number) => {
+  const octave = Math.floor(degree / scale.length);
+  const midi = ROOT_MIDI + octave * 12 + scale[((degree % scale.length) + scale.length) % scale.length];
+  return 440 * Math.pow(2, (midi - 69) / 12);
+};
+
+// Densities are small - a busy soup is around 0.05 - so spread them on a log curve
+const densityDegree = (density: number) => {
+  if (density <= 0) return 0;
+  const level = (Math.log10(density) + 4) / 4; // 0.0001 -> 0, 1 -> 1
+  return Math.round(Math.max(0, Math.min(1, level)) * (DEGREES - 1));
+};
+
+export const notesForFrame = (stats: FrameStats, cellCount: number, mapping: SonifyMapping, scaleName: ScaleName): Note[] => {
+  const scale = SCALES[scaleName];
+  if (cellCount === 0) return [];
+
+  switch (mapping) {
+    case 'population': {
+      if (stats.population === 0) return [];
+      return [{ frequency: degreeFrequency(scale, densityDegree(stats.population / cellCount)), gain: 0.6, delay: 0 }];
+    }
+    case 'changes': {
+      // Births ring out above, deaths answer an octave and a half below
+      const notes: Note[] = [];
+      if (stats.births > 0) {
+        notes.push({ frequency: degreeFrequency(scale, densityDegree(stats.births / cellCount) + scale.length), gain: 0.5, delay: 0 });
+      }
+      if (stats.deaths > 0) {
+        notes.push({ frequency: degreeFrequency(scale, densityDegree(stats.deaths / cellCount) - scale.length), gain: 0.5, delay: STRUM_GAP * 2 });
+      }
+      return notes;
+    }
+    case 'columns': {
+      // A strum across the grid: each occupied band is a string, pitched left to right
+      return stats.columns
+        .map((share, band) => ({ share, band }))
+        .filter(({ share }) => share > COLUMN_THRESHOLD)
+        .map(({ share, band }, index) => ({
+          frequency: degreeFrequency(scale, band * 2),
+          gain: Math.min(1, share * 4),
+          delay: index * STRUM_GAP
+        }));
+    }
+  }
+};
+
+export interface Sonifier {
+  // Call with every frame the simulation draws; only new generations make a sound
+  frame: (cells: Uint8Array, width: number, generation: number) => void;
+  dispose: () => void;
+}
+
+export const createSonifier = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  mapping: SonifyMapping,
+  scale: ScaleName
+): Sonifier => {
+  let previous: Uint8Array | null = null;
+  let lastGeneration = -1;
+  let lastPlayed = -Infinity;
+  let voices = 0;
+
+  const output = context.createGain();
+  output.gain.value = 0.25;
+  output.connect(destination);
+
+  // A triangle wave through a closing lowpass - close enough to a plucked string
+  const pluck = ({ frequency, gain, delay }: Note) => {
+    if (voices >= MAX_VOICES) return;
+
+    const start = context.currentTime + delay;
+    const oscillator = context.createOscillator();
+    oscillator.type = 'triangle';
+    oscillator.frequency.value = frequency;
+
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(frequency * 8, start);
+    filter.frequency.exponentialRampToValueAtTime(frequency * 1.5, start + NOTE_LENGTH);
+
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0.0001, start);
+    envelope.gain.exponentialRampToValueAtTime(gain, start + 0.005);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + NOTE_LENGTH);
+
+    oscillator.connect(filter);
+    filter.connect(envelope);
+    envelope.connect(output);
+    voices++;
+    oscillator.onended = () => {
+      voices--;
+      envelope.disconnect();
+    };
+    oscillator.start(start);
+    oscillator.stop(start + NOTE_LENGTH);
+  };
+
+  return {
+    frame: (cells, width, generation) => {
+      if (generation === lastGeneration) return;
+
+      // A load or resize starts the comparison over rather than reading it as mass births
+      const comparable = previous && previous.length === cells.length && generation > lastGeneration ? previous : null;
+      lastGeneration = generation;
+      const stats = measureFrame(cells, comparable, width);
+      previous = cells;
+
+      if (context.currentTime - lastPlayed < MIN_FRAME_GAP) return;
+      lastPlayed = context.currentTime;
+      notesForFrame(stats, cells.length, mapping, scale).forEach(pluck);
+    },
+    dispose: () => {
+      // Let ringing notes fade rather than click off
+      output.gain.setTargetAtTime(0, context.currentTime, 0.1);
+      setTimeout(() => output.disconnect(), 1000);
+    }
+  };
+};
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAudioGraph } from './AudioGraphContext';
+import { BackendFactory, createAudioEngine, EngineState, EngineTrack } from './audioEngine';
+import { createElementBackend } from './elementBackend';
+import { createWebAudioBackend } from './webAudioBackend';
+
+export interface AudioEngineSettings {
+  volume: number;
+  crossfade: number;
+  loopsPerTrack: number | null;
+  onTrackEnd: () => void;
+  onLoop?: () => void;
+}
+
+// Web Audio where it can start, HTML5 audio elements otherwise
+const DEFAULT_BACKENDS: BackendFactory[] = [() => createWebAudioBackend(), () => createElementBackend()];
+
+// Events browsers treat as user activation - touchend is the one iOS Safari waits for
+const GESTURE_EVENTS = ['pointerdown', 'pointerup', 'touchend', 'keydown'];
+
+// One engine for the component's lifetime, with its state mirrored into React
+export const useAudioEngine = (
+  tracks: EngineTrack[],
+  settings: AudioEngineSettings,
+  backends: BackendFactory[] = DEFAULT_BACKENDS
+) => {
+  const { registerGraph } = useAudioGraph();
+  const onTrackEndRef = useRef(settings.onTrackEnd);
+  onTrackEndRef.current = settings.onTrackEnd;
+  const onLoopRef = useRef(settings.onLoop);
+  onLoopRef.current = settings.onLoop;
+
+  const [engine] = useState(() => createAudioEngine({
+    backends,
+    onGraphChange: registerGraph,
+    onTrackEnd: () => onTrackEndRef.current(),
+    onLoop: () => onLoopRef.current?.()
+  }));
+  const [state, setState] = useState<EngineState>(engine.getState);
+
+  useEffect(() => engine.subscribe(setState), [engine]);
+
+  useEffect(() => {
+    engine.preload(tracks);
+  }, [engine, tracks]);
+
+  // Create and resume the AudioContext inside any gesture, ahead of the page's own handlers.
+  // Playback that starts later from state - the 1-4 keys, the queue moving on - then finds
+  // it running instead of suspended.
+  useEffect(() => {
+    const handleGesture = () => {
+      engine.unlock();
+    };
+    GESTURE_EVENTS.forEach(type => document.addEventListener(type, handleGesture, true));
+    return () => GESTURE_EVENTS.forEach(type => document.removeEventListener(type, handleGesture, true));
+  }, [engine]);
+
+  useEffect(() => {
+    engine.setVolume(settings.volume);
+  }, [engine, settings.volume]);
+
+  useEffect(() => {
+    engine.setCrossfade(settings.crossfade);
+  }, [engine, settings.crossfade]);
+
+  useEffect(() => {
+    engine.setLoopsPerTrack(settings.loopsPerTrack);
+  }, [engine, settings.loopsPerTrack]);
+
+  // The engine sets itself up again on next use, so this survives StrictMode's remount
+  useEffect(() => () => engine.dispose(), [engine]);
+
+  return { engine, state };
+};
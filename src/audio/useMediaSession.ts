@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+import { GifItem, MusicTrack } from '../types';
+
+export interface MediaSessionControls {
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  next: () => void;
+  previous: () => void;
+}
+
+const ARTIST = 'Moonchild';
+const ALBUM = "Conway's Game of Life";
+
+const isMediaSessionSupported = () => typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+// Each track is shown with one of the gallery GIFs, the same one every time
+export const artworkFor = (track: MusicTrack, tracks: MusicTrack[], gallery: GifItem[]): MediaImage[] => {
+  if (gallery.length === 0) return [];
+
+  const gif = gallery[Math.max(0, tracks.findIndex(candidate => candidate.id === track.id)) % gallery.length];
+  return [{
+    src: new URL(gif.path, window.location.href).href,
+    type: 'image/gif',
+    ...(gif.width && gif.height ? { sizes: `${gif.width}x${gif.height}` } : {})
+  }];
+};
+
+// Lock-screen metadata and hardware media keys for the soundtrack
+export const useMediaSession = (
+  track: MusicTrack | null,
+  isPlaying: boolean,
+  artwork: MediaImage[],
+  controls: MediaSessionControls
+) => {
+  // Handlers are registered once and always call the latest controls
+  const controlsRef = useRef(controls);
+  controlsRef.current = controls;
+
+  useEffect(() => {
+    if (!isMediaSessionSupported()) return;
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => controlsRef.current.play()],
+      ['pause', () => controlsRef.current.pause()],
+      ['stop', () => controlsRef.current.stop()],
+      ['nexttrack', () => controlsRef.current.next()],
+      ['previoustrack', () => controlsRef.current.previous()]
+    ];
+
+    for (const [action, handler] of handlers) {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch (error) {
+        // Older browsers throw for actions they don't know, e.g. 'stop'
+        console.warn(`Media Session action '${action}' is not supported:`, error);
+      }
+    }
+
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // Already reported when registering
+        }
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isMediaSessionSupported()) return;
+
+    navigator.mediaSession.metadata = track
+      ? new MediaMetadata({ title: track.name, artist: ARTIST, album: ALBUM, artwork })
+      : null;
+  }, [track, artwork]);
+
+  useEffect(() => {
+    if (!isMediaSessionSupported()) return;
+
+    navigator.mediaSession.playbackState = !track ? 'none' : isPlaying ? 'playing' : 'paused';
+  }, [track, isPlaying]);
+};
@@ -0,0 +1,146 @@
+import { createAnalyser } from './audioAnalysis';
+import { PlaybackBackend } from './audioEngine';
+
+export interface WebAudioBackendOptions {
+  createContext?: () => AudioContext;
+  fetchAudio?: (path: string) => Promise<ArrayBuffer>;
+}
+
+interface Voice {
+  source: AudioBufferSourceNode;
+  gain: GainNode; // per voice, so outgoing and incoming tracks ramp separately
+  path: string;
+  // A buffer source can't report its position, so remember where it started:
+  // position = offset + (context time now - context time at start)
+  offset: number;
+  startedAt: number;
+}
+
+const defaultCreateContext = () => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  return new AudioContextClass() as AudioContext;
+};
+
+const defaultFetchAudio = async (path: string) => {
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.arrayBuffer();
+};
+
+const isWebAudioAvailable = () => {
+  return typeof window !== 'undefined' && Boolean(window.AudioContext || (window as any).webkitAudioContext);
+};
+
+// Decoded buffers looping through voice gain -> analyser -> master gain -> speakers.
+// The graph is exposed for recording, audio-reactive visuals and sonification.
+export const createWebAudioBackend = (options: WebAudioBackendOptions = {}): PlaybackBackend | null => {
+  const { createContext = defaultCreateContext, fetchAudio = defaultFetchAudio } = options;
+  if (!options.createContext && !isWebAudioAvailable()) return null;
+
+  const context = createContext();
+  const master = context.createGain();
+  master.connect(context.destination);
+  const analyser = createAnalyser(context);
+  analyser.connect(master);
+
+  const buffers = new Map<string, Promise<AudioBuffer>>();
+  const decoded = new Map<string, AudioBuffer>();
+  let voice: Voice | null = null;
+
+  const voicePosition = (target: Voice) => {
+    const buffer = target.source.buffer;
+    if (!buffer) return 0;
+    return (target.offset + context.currentTime - target.startedAt) % buffer.duration;
+  };
+
+  const release = (fadeSeconds: number) => {
+    if (!voice) return;
+    const { source, gain } = voice;
+    voice = null;
+
+    if (fadeSeconds > 0) {
+      const now = context.currentTime;
+      gain.gain.cancelScheduledValues(now);
+      gain.gain.setValueAtTime(gain.gain.value, now);
+      gain.gain.linearRampToValueAtTime(0, now + fadeSeconds);
+      source.stop(now + fadeSeconds);
+    } else {
+      source.stop();
+    }
+  };
+
+  const start = (path: string, buffer: AudioBuffer, offset: number, fadeSeconds: number) => {
+    const gain = context.createGain();
+    gain.connect(analyser);
+    if (fadeSeconds > 0) {
+      gain.gain.setValueAtTime(0, context.currentTime);
+      gain.gain.linearRampToValueAtTime(1, context.currentTime + fadeSeconds);
+    }
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(gain);
+    source.onended = () => gain.disconnect();
+    source.start(0, offset % buffer.duration);
+    voice = { source, gain, path, offset, startedAt: context.currentTime };
+  };
+
+  return {
+    kind: 'Web Audio',
+    graph: () => ({ context, output: master, analyser }),
+    unlock: async () => {
+      // Browsers keep a new context suspended until a user gesture
+      if (context.state === 'suspended') {
+        try {
+          await context.resume();
+        } catch (error) {
+          console.warn('Could not resume AudioContext:', error);
+        }
+      }
+      return context.state === 'running';
+    },
+    load: (path) => {
+      let pending = buffers.get(path);
+      if (!pending) {
+        pending = fetchAudio(path)
+          .then(data => context.decodeAudioData(data))
+          .then(buffer => {
+            decoded.set(path, buffer);
+            return buffer;
+          });
+        // A failed load can be retried
+        pending.catch(() => buffers.delete(path));
+        buffers.set(path, pending);
+      }
+      return pending.then(() => undefined);
+    },
+    play: async (path, offset, fadeSeconds) => {
+      const buffer = decoded.get(path);
+      if (!buffer) {
+        throw new Error(`${path} has not been loaded`);
+      }
+      release(fadeSeconds);
+      start(path, buffer, offset, fadeSeconds);
+    },
+    stop: release,
+    seek: (seconds) => {
+      if (!voice) return;
+      const { path } = voice;
+      const buffer = decoded.get(path)!;
+      release(0);
+      start(path, buffer, seconds, 0);
+    },
+    position: () => (voice ? voicePosition(voice) : 0),
+    duration: (path) => decoded.get(path)?.duration ?? 0,
+    setVolume: (volume) => {
+      master.gain.value = volume;
+    },
+    dispose: () => {
+      release(0);
+      context.close().catch(error => console.warn('Could not close AudioContext:', error));
+    }
+  };
+};
@@ -0,0 +1,118 @@
+// A free-drag collage composition: where each item sits, its stacking order and
+// an optional scale/rotation. Items without a placement keep their default spot.
+export interface ItemPlacement {
+  x: number;
+  y: number;
+  z: number;
+  scale?: number; // 1 when omitted
+  rotation?: number; // degrees, 0 when omitted
+}
+
+export interface Arrangement {
+  name: string;
+  items: Record<string, ItemPlacement>;
+}
+
+export const DEFAULT_ARRANGEMENT_NAME = 'untitled';
+const FIRST_Z = 100; // leaves room below for anything that should sit behind
+
+export const createArrangement = (name = DEFAULT_ARRANGEMENT_NAME): Arrangement => ({ name, items: {} });
+
+export const nextZIndex = (arrangement: Arrangement) => {
+  let top = FIRST_Z - 1;
+  for (const placement of Object.values(arrangement.items)) {
+    top = Math.max(top, placement.z);
+  }
+  return top + 1;
+};
+
+// Moves an item and brings it to the front
+export const moveItem = (arrangement: Arrangement, id: string, x: number, y: number): Arrangement => ({
+  ...arrangement,
+  items: {
+    ...arrangement.items,
+    [id]: { ...arrangement.items[id], x: Math.round(x), y: Math.round(y), z: nextZIndex(arrangement) }
+  }
+});
+
+export const transformItem = (arrangement: Arrangement, id: string, change: { scale?: number; rotation?: number }): Arrangement => {
+  const placement = arrangement.items[id];
+  if (!placement) return arrangement;
+
+  const scale = Math.max(0.1, Math.min(5, change.scale ?? placement.scale ?? 1));
+  const rotation = ((change.rotation ?? placement.rotation ?? 0) % 360 + 360) % 360;
+  return {
+    ...arrangement,
+    items: { ...arrangement.items, [id]: { ...placement, scale: Math.round(scale * 100) / 100, rotation } }
+  };
+};
+
+export const placementTransform = (placement: ItemPlacement) => {
+  const parts = [];
+  if (placement.rotation) parts.push(`rotate(${placement.rotation}deg)`);
+  if (placement.scale && placement.scale !== 1) parts.push(`scale(${placement.scale})`);
+  return parts.length > 0 ? parts.join(' ') : 'none';
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const readPlacement = (value: unknown): ItemPlacement | null => {
+  if (!isRecord(value) || !isFiniteNumber(value.x) || !isFiniteNumber(value.y) || !isFiniteNumber(value.z)) return null;
+  return {
+    x: value.x,
+    y: value.y,
+    z: value.z,
+    ...(isFiniteNumber(value.scale) ? { scale: value.scale } : {}),
+    ...(isFiniteNumber(value.rotation) ? { rotation: value.rotation } : {})
+  };
+};
+
+// Validates untrusted data (imports, links, saved sessions), throwing on anything unusable
+export const readArrangement = (value: unknown): Arrangement => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !isRecord(value.items)) {
+    throw new Error('Not an arrangement: expected a name and items');
+  }
+
+  const items: Record<string, ItemPlacement> = {};
+  for (const [id, raw] of Object.entries(value.items)) {
+    const placement = readPlacement(raw);
+    if (!placement) throw new Error(`Invalid placement for item ${id}`);
+    items[id] = placement;
+  }
+  return { name: value.name.trim() || DEFAULT_ARRANGEMENT_NAME, items };
+};
+
+export const serializeArrangement = (arrangement: Arrangement) => JSON.stringify(arrangement, null, 2);
+
+export const parseArrangement = (text: string): Arrangement => readArrangement(JSON.parse(text));
+
+// Compact link form: base64url of [name, [[id, x, y, z, scale?, rotation?], ...]]
+export const encodeArrangementFragment = (arrangement: Arrangement) => {
+  const rows = Object.entries(arrangement.items).map(([id, { x, y, z, scale, rotation }]) => {
+    const row: (string | number)[] = [id, x, y, z];
+    if (scale !== undefined || rotation !== undefined) row.push(scale ?? 1);
+    if (rotation !== undefined) row.push(rotation);
+    return row;
+  });
+  const bytes = new TextEncoder().encode(JSON.stringify([arrangement.name, rows]));
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeArrangementFragment = (fragment: string): Arrangement => {
+  const binary = atob(fragment.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  const [name, rows] = JSON.parse(new TextDecoder().decode(bytes));
+  if (!Array.isArray(rows)) throw new Error('Malformed arrangement link');
+
+  const items: Record<string, unknown> = {};
+  for (const [id, x, y, z, scale, rotation] of rows) {
+    items[String(id)] = { x, y, z, scale, rotation };
+  }
+  return readArrangement({ name, items });
+};
@@ -0,0 +1,32 @@
+import { Arrangement, decodeArrangementFragment, encodeArrangementFragment } from './arrangement';
+import { formatHash, getHashParams, readRoute, writeHashParams } from '../navigation/hashRoute';
+
+const ARRANGEMENT_PARAM = 'arrangement';
+
+export const readSharedArrangement = (): Arrangement | null => {
+  const fragment = getHashParams().get(ARRANGEMENT_PARAM);
+  if (!fragment) return null;
+
+  try {
+    return decodeArrangementFragment(fragment);
+  } catch (error) {
+    console.error('Ignoring malformed arrangement in URL:', error);
+    return null;
+  }
+};
+
+// Once imported the arrangement lives in the session, so the link parameter can go
+export const clearSharedArrangement = () => {
+  const params = getHashParams();
+  params.delete(ARRANGEMENT_PARAM);
+  writeHashParams(params);
+};
+
+// A link to the current layout that opens with this arrangement
+export const arrangementLink = (arrangement: Arrangement): string => {
+  const route = readRoute();
+  const params = new URLSearchParams(route.params);
+  params.set(ARRANGEMENT_PARAM, encodeArrangementFragment(arrangement));
+  const hash = formatHash({ ...route, itemId: null, params });
+  return `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`;
+};
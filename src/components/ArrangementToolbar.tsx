@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import { Arrangement, parseArrangement, serializeArrangement } from '../collage/arrangement';
+import { arrangementLink } from '../collage/share';
+import './ArrangementToolbar.css';
+
+interface ArrangementToolbarProps {
+  arrangements: Arrangement[];
+  active: Arrangement;
+  hasSelection: boolean;
+  onSelect: (name: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onImport: (arrangement: Arrangement) => void;
+}
+
+const ArrangementToolbar: React.FC<ArrangementToolbarProps> = ({
+  arrangements,
+  active,
+  hasSelection,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onImport
+}) => {
+  const [linkCopied, setLinkCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleCreate = () => {
+    const name = window.prompt('Name for the new arrangement:', `arrangement ${arrangements.length + 1}`);
+    if (name?.trim()) onCreate(name.trim());
+  };
+
+  const handleRename = () => {
+    const name = window.prompt('Rename arrangement:', active.name);
+    if (name?.trim() && name.trim() !== active.name) onRename(name.trim());
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${active.name}"?`)) onDelete();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeArrangement(active)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${active.name.replace(/[^\w-]+/g, '_') || 'arrangement'}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow importing the same file again
+    if (!file) return;
+
+    try {
+      onImport(parseArrangement(await file.text()));
+    } catch (error) {
+      console.error('Failed to import arrangement:', error);
+      alert(`Could not read ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(arrangementLink(active));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy arrangement link:', error);
+    }
+  };
+
+  return (
+    <div className="arrangement-toolbar" onMouseDown={(e) => e.stopPropagation()}>
+      <select
+        className="arrangement-select"
+        value={active.name}
+        onChange={(e) => onSelect(e.target.value)}
+        title="Saved arrangements"
+      >
+        {arrangements.map(arrangement => (
+          <option key={arrangement.name} value={arrangement.name}>{arrangement.name}</option>
+        ))}
+      </select>
+
+      <div className="arrangement-buttons">
+        <button className="arrangement-btn" onClick={handleCreate} title="Start a new arrangement">new</button>
+        <button className="arrangement-btn" onClick={handleRename} title="Rename this arrangement">rename</button>
+        <button
+          className="arrangement-btn"
+          onClick={handleDelete}
+          disabled={arrangements.length < 2}
+          title="Delete this arrangement"
+        >
+          delete
+        </button>
+      </div>
+
+      <div className="arrangement-buttons">
+        <button className="arrangement-btn" onClick={handleExport} title="Download as JSON">json</button>
+        <button className="arrangement-btn" onClick={() => fileInputRef.current?.click()} title="Import a JSON arrangement">
+          import
+        </button>
+        <button className="arrangement-btn" onClick={handleCopyLink} title="Copy a link that opens this arrangement">
+          {linkCopied ? 'copied' : 'link'}
+        </button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleImportFile}
+        hidden
+      />
+
+      <div className="arrangement-hint">
+        {hasSelection ? '[ ] rotate · - = scale · 0 reset' : 'drag an image to place it'}
+      </div>
+    </div>
+  );
+};
+
+export default ArrangementToolbar;
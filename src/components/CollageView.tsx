@@ -1,11 +1,20 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { GifItem } from '../types';
+import { loadSession, saveSession } from '../persistence/session';
+import { Arrangement, createArrangement, moveItem, nextZIndex, placementTransform, transformItem } from '../collage/arrangement';
+import { clearSharedArrangement, readSharedArrangement } from '../collage/share';
+import { useAudioLevels } from '../audio/AudioLevelsContext';
+import { usePointerGestures } from '../gestures/usePointerGestures';
+import { useDisplayOrder } from '../navigation/NavigationContext';
+import { readingOrder } from '../navigation/displayOrder';
+import ArrangementToolbar from './ArrangementToolbar';
 import './CollageView.css';
 
 interface CollageViewProps {
   gifs: GifItem[];
   onGifClick: (gif: GifItem) => void;
   variant: 'large' | 'stack';
+  isAudioReactive?: boolean; // items breathe with the soundtrack's loudness
 }
 
 interface DragState {
@@ -17,16 +26,29 @@ interface DragState {
   draggedElement: HTMLDivElement | null;
 }
 
+// Imported and linked arrangements never overwrite a saved one with the same name
+const uniqueName = (name: string, arrangements: Arrangement[]) => {
+  let candidate = name;
+  for (let n = 2; arrangements.some(arrangement => arrangement.name === candidate); n++) {
+    candidate = `${name} (${n})`;
+  }
+  return candidate;
+};
+
 interface CanvasSize {
   width: number;
   height: number;
 }
 
-const CollageView: React.FC<CollageViewProps> = ({ gifs, onGifClick, variant }) => {
+const BREATH_SMOOTHING = 0.08; // per frame - slow enough to read as breathing, not flicker
+
+const CollageView: React.FC<CollageViewProps> = ({ gifs, onGifClick, variant, isAudioReactive = false }) => {
   const [orderedGifs, setOrderedGifs] = useState<GifItem[]>(gifs);
-  const [customPositions] = useState<Record<string, {x: number, y: number}>>({});
-  const [imageZIndices, setImageZIndices] = useState<Record<string, number>>({});
-  const [nextZIndex, setNextZIndex] = useState(100); // Start at 100 to allow room below
+  // Saved free-drag arrangements, restored from the last session. A shared link adds its own.
+  const [arrangements, setArrangements] = useState<Arrangement[]>(() => loadSession().collage.arrangements);
+  const [activeName, setActiveName] = useState(() => loadSession().collage.active);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const arrangement = arrangements.find(a => a.name === activeName) ?? arrangements[0];
   const [canvasSize, setCanvasSize] = useState<CanvasSize>({
     width: Math.max(window.innerWidth * 10, 10000),
     height: Math.max(window.innerHeight * 10, 10000)
@@ -44,11 +66,122 @@ const CollageView: React.FC<CollageViewProps> = ({ gifs, onGifClick, variant })
   const dragStateRef = useRef(dragState);
   dragStateRef.current = dragState;
 
+  const breathRef = useRef(0);
+  useAudioLevels(({ amplitude }) => {
+    breathRef.current += (amplitude - breathRef.current) * BREATH_SMOOTHING;
+    containerRef.current?.style.setProperty('--audio-breath', breathRef.current.toFixed(3));
+  }, isAudioReactive);
+
+  // Settle back to full size when the music stops
+  useEffect(() => {
+    if (!isAudioReactive) {
+      breathRef.current = 0;
+      containerRef.current?.style.removeProperty('--audio-breath');
+    }
+  }, [isAudioReactive]);
+
   // Update orderedGifs when gifs prop changes
   useEffect(() => {
     setOrderedGifs(gifs);
   }, [gifs]);
 
+  // The stack reads top to bottom in array order. The canvas reads like a page, by where
+  // each item sits, with the top of a pile first - measured once the items are laid out.
+  const stackOrder = useMemo(() => orderedGifs.map(gif => gif.id), [orderedGifs]);
+  const [canvasOrder, setCanvasOrder] = useState<string[] | null>(null);
+  useDisplayOrder(variant === 'large' ? canvasOrder : stackOrder);
+
+  useEffect(() => {
+    const grid = containerRef.current?.querySelector('.collage-grid');
+    if (variant !== 'large' || !grid) return;
+
+    const items = orderedGifs.flatMap((gif, index) => {
+      const element = grid.querySelector<HTMLElement>(`[data-index="${index}"]`);
+      if (!element) return [];
+      return [{
+        id: gif.id,
+        x: element.offsetLeft,
+        y: element.offsetTop,
+        height: element.offsetHeight,
+        z: arrangement.items[gif.id]?.z ?? 0
+      }];
+    });
+    setCanvasOrder(readingOrder(items));
+  }, [variant, orderedGifs, arrangement]);
+
+  useEffect(() => {
+    if (variant === 'large') {
+      saveSession({ collage: { arrangements, active: arrangement.name } });
+    }
+  }, [variant, arrangements, arrangement.name]);
+
+  const addArrangement = (added: Arrangement) => {
+    const name = uniqueName(added.name, arrangements);
+    setArrangements(prev => [...prev, { ...added, name }]);
+    setActiveName(name);
+    setSelectedId(null);
+  };
+
+  const selectArrangement = (name: string) => {
+    setActiveName(name);
+    setSelectedId(null);
+  };
+
+  const renameArrangement = (name: string) => {
+    const unique = uniqueName(name, arrangements);
+    setArrangements(prev => prev.map(a => (a.name === arrangement.name ? { ...a, name: unique } : a)));
+    setActiveName(unique);
+  };
+
+  const deleteArrangement = () => {
+    const remaining = arrangements.filter(a => a.name !== arrangement.name);
+    if (remaining.length === 0) return;
+    setArrangements(remaining);
+    selectArrangement(remaining[0].name);
+  };
+
+  const updateArrangement = (change: (current: Arrangement) => Arrangement) => {
+    setArrangements(prev => prev.map(a => (a.name === arrangement.name ? change(a) : a)));
+  };
+
+  // Open an arrangement shared by link
+  useEffect(() => {
+    if (variant !== 'large') return;
+    const shared = readSharedArrangement();
+    if (shared) {
+      addArrangement(shared);
+      clearSharedArrangement();
+    }
+  }, [variant]);
+
+  // Rotate and scale the last placed item: [ ] rotate, - = scale, 0 resets
+  useEffect(() => {
+    if (variant !== 'large' || !selectedId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      const placement = arrangement.items[selectedId];
+      if (!placement) return;
+
+      const scale = placement.scale ?? 1;
+      const rotation = placement.rotation ?? 0;
+      const change =
+        e.key === '[' ? { rotation: rotation - 5 } :
+        e.key === ']' ? { rotation: rotation + 5 } :
+        e.key === '-' ? { scale: scale / 1.1 } :
+        e.key === '=' || e.key === '+' ? { scale: scale * 1.1 } :
+        e.key === '0' ? { scale: 1, rotation: 0 } :
+        null;
+      if (!change) return;
+
+      e.preventDefault();
+      updateArrangement(current => transformItem(current, selectedId, change));
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [variant, selectedId, arrangement]);
+
 
   const getContainerClass = () => {
     switch (variant) {
@@ -61,7 +194,7 @@ const CollageView: React.FC<CollageViewProps> = ({ gifs, onGifClick, variant })
   const getItemClass = (index: number) => {
     const baseClass = dragState.draggedItem === index ? 'dragging' : '';
     const gif = orderedGifs[index];
-    const hasCustomPosition = customPositions[gif.id];
+    const hasCustomPosition = variant === 'large' && arrangement.items[gif.id];
 
     switch (variant) {
       case 'large':
@@ -79,184 +212,179 @@ const CollageView: React.FC<CollageViewProps> = ({ gifs, onGifClick, variant })
     }
   };
 
-  const handleMouseDown = (e: React.MouseEvent, index: number) => {
-    if (variant !== 'large') return;
-
-    // Check if we should trigger background drag instead of image drag
-    if (e.button !== 0 || e.shiftKey) {
-      handleBackgroundMouseDown(e);
-      return;
-    }
-
-    e.preventDefault();
-    e.stopPropagation(); // Prevent background drag when dragging an image
-
-    const element = e.currentTarget as HTMLElement;
-    const rect = element.getBoundingClientRect();
+  // One gesture on the canvas (large variant only). Starting on an item drags it and a pinch
+  // scales it; starting on the background, with Shift or with another mouse button pans the
+  // canvas, and a flick keeps it gliding.
+  const gestureRef = useRef<{
+    mode: 'item' | 'background';
+    isActive: boolean;
+    index: number;
+    element: HTMLElement | null;
+    offset: { x: number; y: number };
+    droppedAt: { x: number; y: number } | null;
+    pinch: number;
+  }>({ mode: 'background', isActive: false, index: -1, element: null, offset: { x: 0, y: 0 }, droppedAt: null, pinch: 1 });
+
+  const dragItemTo = (point: { x: number; y: number }) => {
     const container = containerRef.current;
-    if (!container) return;
+    const { element, offset } = gestureRef.current;
+    if (!container || !element) return;
 
+    // Calculate position relative to the document/canvas
     const containerRect = container.getBoundingClientRect();
-
-    // Calculate offset from mouse to element's top-left corner
-    const offsetX = e.clientX - rect.left;
-    const offsetY = e.clientY - rect.top;
-
-    const handleMouseMove = (e: MouseEvent) => {
-      // Calculate position relative to the document/canvas
-      const scrollLeft = container.scrollLeft;
-      const scrollTop = container.scrollTop;
-      const newX = e.clientX - containerRect.left + scrollLeft - offsetX;
-      const newY = e.clientY - containerRect.top + scrollTop - offsetY;
-
-      // Always ensure canvas is large enough for current drag position
-      const buffer = 500; // Extra space beyond drag position
-      let newCanvasWidth = Math.max(canvasSize.width, newX + buffer);
-      let newCanvasHeight = Math.max(canvasSize.height, newY + buffer);
-
-      // Immediately update DOM if canvas needs to grow
-      if (newCanvasWidth > canvasSize.width || newCanvasHeight > canvasSize.height) {
-        const grid = container.querySelector('.collage-grid') as HTMLElement;
-        if (grid) {
-          grid.style.width = newCanvasWidth + 'px';
-          grid.style.height = newCanvasHeight + 'px';
-        }
-
-        // Update React state
-        setCanvasSize({ width: newCanvasWidth, height: newCanvasHeight });
-      }
-
-      // Auto-scroll to follow the dragged item
-      const scrollMargin = 100; // Start scrolling when within 100px of viewport edge
-      const containerWidth = container.clientWidth;
-      const containerHeight = container.clientHeight;
-
-      // Check if we need to scroll horizontally (consistent speed)
-      const mouseXInViewport = e.clientX - containerRect.left;
-      if (mouseXInViewport > containerWidth - scrollMargin) {
-        // Scroll right
-        container.scrollLeft += 12;
-      } else if (mouseXInViewport < scrollMargin) {
-        // Scroll left
-        container.scrollLeft -= 12;
-      }
-
-      // Check if we need to scroll vertically (consistent speed)
-      const mouseYInViewport = e.clientY - containerRect.top;
-      if (mouseYInViewport > containerHeight - scrollMargin) {
-        // Scroll down
-        container.scrollTop += 12;
-      } else if (mouseYInViewport < scrollMargin) {
-        // Scroll up
-        container.scrollTop -= 12;
+    const newX = point.x - containerRect.left + container.scrollLeft - offset.x;
+    const newY = point.y - containerRect.top + container.scrollTop - offset.y;
+
+    // Always ensure canvas is large enough for current drag position
+    const buffer = 500; // Extra space beyond drag position
+    let newCanvasWidth = Math.max(canvasSize.width, newX + buffer);
+    let newCanvasHeight = Math.max(canvasSize.height, newY + buffer);
+
+    // Immediately update DOM if canvas needs to grow
+    if (newCanvasWidth > canvasSize.width || newCanvasHeight > canvasSize.height) {
+      const grid = container.querySelector('.collage-grid') as HTMLElement;
+      if (grid) {
+        grid.style.width = newCanvasWidth + 'px';
+        grid.style.height = newCanvasHeight + 'px';
       }
 
-      // Use absolute positioning so it stays in the background
-      element.style.setProperty('position', 'absolute', 'important');
-      element.style.setProperty('left', newX + 'px', 'important');
-      element.style.setProperty('top', newY + 'px', 'important');
-      element.style.setProperty('z-index', '10000', 'important'); // Higher z-index for dragged item
-      element.style.setProperty('transform', 'none', 'important');
-      element.style.setProperty('pointer-events', 'none', 'important');
-    };
-
-    const handleMouseUp = () => {
-      // Get the GIF ID for this element
-      const gifId = orderedGifs[index].id;
+      // Update React state
+      setCanvasSize({ width: newCanvasWidth, height: newCanvasHeight });
+    }
 
-      // Assign this image the next highest z-index (bringing it to front permanently)
-      const newZIndex = nextZIndex;
-      setImageZIndices(prev => ({
-        ...prev,
-        [gifId]: newZIndex
-      }));
-      setNextZIndex(prev => prev + 1);
+    // Auto-scroll to follow the dragged item
+    const scrollMargin = 100; // Start scrolling when within 100px of viewport edge
+    const containerWidth = container.clientWidth;
+    const containerHeight = container.clientHeight;
+
+    // Check if we need to scroll horizontally (consistent speed)
+    const pointerXInViewport = point.x - containerRect.left;
+    if (pointerXInViewport > containerWidth - scrollMargin) {
+      // Scroll right
+      container.scrollLeft += 12;
+    } else if (pointerXInViewport < scrollMargin) {
+      // Scroll left
+      container.scrollLeft -= 12;
+    }
 
-      // Reset pointer events and set the new z-index
-      element.style.setProperty('pointer-events', 'auto', 'important');
-      element.style.setProperty('z-index', newZIndex.toString(), 'important');
+    // Check if we need to scroll vertically (consistent speed)
+    const pointerYInViewport = point.y - containerRect.top;
+    if (pointerYInViewport > containerHeight - scrollMargin) {
+      // Scroll down
+      container.scrollTop += 12;
+    } else if (pointerYInViewport < scrollMargin) {
+      // Scroll up
+      container.scrollTop -= 12;
+    }
 
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mouseup', handleMouseUp);
-    };
+    gestureRef.current.droppedAt = { x: newX, y: newY };
 
-    document.addEventListener('mousemove', handleMouseMove);
-    document.addEventListener('mouseup', handleMouseUp);
+    // Use absolute positioning so it stays in the background. Rotation and scale come
+    // from the arrangement and stay applied while dragging.
+    element.style.setProperty('position', 'absolute', 'important');
+    element.style.setProperty('left', newX + 'px', 'important');
+    element.style.setProperty('top', newY + 'px', 'important');
+    element.style.setProperty('z-index', '10000', 'important'); // Higher z-index for dragged item
+    element.style.setProperty('pointer-events', 'none', 'important');
   };
 
-  const handleBackgroundMouseDown = (e: React.MouseEvent) => {
-    // Allow background dragging for large variant from anywhere
-    if (variant !== 'large') return;
-
-    // Allow background dragging when:
-    // 1. Right-clicking anywhere
-    // 2. Left-clicking on background (not on images)
-    // 3. Left-clicking with Shift key held (overrides image dragging)
-    const target = e.target as HTMLElement;
-    const isImageElement = target.classList.contains('collage-image') || target.classList.contains('collage-item');
-
-    const shouldBackgroundDrag =
-      e.button !== 0 || // Right click or middle click
-      !isImageElement || // Click on background
-      e.shiftKey; // Shift + left click to force background drag
-
-    if (!shouldBackgroundDrag) {
-      return;
+  const dropItem = () => {
+    const { index, element, droppedAt, pinch } = gestureRef.current;
+    if (!element) return;
+
+    // Dropping places the item in the arrangement and brings it to the front permanently.
+    // A click without movement just selects it.
+    const gifId = orderedGifs[index].id;
+    const newZIndex = nextZIndex(arrangement);
+    if (droppedAt) {
+      const position = droppedAt;
+      updateArrangement(current => {
+        const moved = moveItem(current, gifId, position.x, position.y);
+        return pinch === 1 ? moved : transformItem(moved, gifId, { scale: (moved.items[gifId]?.scale ?? 1) * pinch });
+      });
     }
+    setSelectedId(gifId);
 
-    e.preventDefault();
-    e.stopPropagation();
-
-    const container = containerRef.current;
-    if (!container) return;
-
-    const startScrollLeft = container.scrollLeft;
-    const startScrollTop = container.scrollTop;
-    const startX = e.clientX;
-    const startY = e.clientY;
-
-    // Set cursor to grabbing
-    container.style.cursor = 'grabbing';
-
-    const handleBackgroundMouseMove = (e: MouseEvent) => {
-      // Calculate movement delta
-      const deltaX = e.clientX - startX;
-      const deltaY = e.clientY - startY;
-
-      // Apply movement directly (positive delta = move canvas in that direction)
-      container.scrollLeft = startScrollLeft - deltaX;
-      container.scrollTop = startScrollTop - deltaY;
-    };
-
-    const handleBackgroundMouseUp = () => {
-      // Reset cursor
-      container.style.cursor = 'grab';
-
-      document.removeEventListener('mousemove', handleBackgroundMouseMove);
-      document.removeEventListener('mouseup', handleBackgroundMouseUp);
-    };
-
-    document.addEventListener('mousemove', handleBackgroundMouseMove);
-    document.addEventListener('mouseup', handleBackgroundMouseUp);
+    // Reset pointer events and set the new z-index
+    element.style.setProperty('pointer-events', 'auto', 'important');
+    element.style.setProperty('z-index', (droppedAt ? newZIndex : arrangement.items[gifId]?.z ?? 1).toString(), 'important');
   };
 
+  usePointerGestures(containerRef, {
+    onStart: (point, e) => {
+      const container = containerRef.current;
+      if (!container) return false;
+
+      const item = (e.target as HTMLElement).closest<HTMLElement>('.collage-item');
+      const index = item ? Number(item.dataset.index) : -1;
+      if (item && index >= 0 && e.button === 0 && !e.shiftKey) {
+        // Offset from the pointer to the element's top-left corner
+        const rect = item.getBoundingClientRect();
+        gestureRef.current = {
+          mode: 'item',
+          isActive: true,
+          index,
+          element: item,
+          offset: { x: point.x - rect.left, y: point.y - rect.top },
+          droppedAt: null,
+          pinch: 1
+        };
+      } else {
+        gestureRef.current = { ...gestureRef.current, mode: 'background', isActive: true, element: null };
+        container.style.cursor = 'grabbing';
+      }
+    },
+    onPan: (delta, point) => {
+      const container = containerRef.current;
+      if (!container) return;
+
+      if (gestureRef.current.mode === 'item') {
+        if (gestureRef.current.isActive) dragItemTo(point);
+      } else {
+        // Positive delta moves the canvas with the pointer; this also runs while a flick coasts
+        container.scrollLeft -= delta.x;
+        container.scrollTop -= delta.y;
+      }
+    },
+    onPinch: (scale) => {
+      const gesture = gestureRef.current;
+      if (gesture.mode !== 'item' || !gesture.element) return;
+
+      gesture.pinch *= scale;
+      const placement = arrangement.items[orderedGifs[gesture.index].id];
+      const baseScale = placement?.scale ?? 1;
+      gesture.element.style.transform = placementTransform({
+        ...(placement ?? { x: 0, y: 0, z: 0 }),
+        scale: Math.max(0.1, Math.min(5, baseScale * gesture.pinch))
+      });
+    },
+    onEnd: () => {
+      const gesture = gestureRef.current;
+      gesture.isActive = false;
+      if (gesture.mode === 'item') {
+        dropItem();
+      } else if (containerRef.current) {
+        containerRef.current.style.cursor = 'grab';
+      }
+    }
+  }, { inertia: true, enabled: variant === 'large' });
 
   const getDragStyle = (index: number): React.CSSProperties => {
     const gif = orderedGifs[index];
-    const customPos = customPositions[gif.id];
-    const zIndex = imageZIndices[gif.id];
+    const placement = arrangement.items[gif.id];
 
-    // If has a custom stored position (large variant only)
-    if (customPos && variant === 'large') {
+    // If has a custom stored position (large variant only). The offsets go through custom
+    // properties because .large-item pins top/left with !important.
+    if (placement && variant === 'large') {
       return {
         position: 'absolute' as const,
-        left: `${customPos.x}px`,
-        top: `${customPos.y}px`,
-        zIndex: zIndex || 1, // Use stored z-index or default to 1
-        transform: 'none',
+        '--custom-x': `${placement.x}px`,
+        '--custom-y': `${placement.y}px`,
+        zIndex: placement.z,
+        transform: placementTransform(placement),
         width: 'auto',
         height: 'auto'
-      };
+      } as React.CSSProperties;
     }
 
     return {};
@@ -275,80 +403,90 @@ const CollageView: React.FC<CollageViewProps> = ({ gifs, onGifClick, variant })
 
 
   return (
-    <div
-      ref={containerRef}
-      className={`collage-container ${getContainerClass()}`}
-      style={variant === 'large' ? {
-        overflow: 'auto',
-        width: '100vw',
-        height: '100vh',
-        position: 'fixed',
-        top: 0,
-        left: 0,
-        zIndex: 10,
-        cursor: 'grab'
-      } : {}}
-      onMouseDown={variant === 'large' ? handleBackgroundMouseDown : undefined}
-      onContextMenu={variant === 'large' ? (e) => e.preventDefault() : undefined}
-    >
+    <>
       <div
-        className="collage-grid"
+        ref={containerRef}
+        className={`collage-container ${getContainerClass()}`}
         style={variant === 'large' ? {
-          width: `${canvasSize.width}px`,
-          height: `${canvasSize.height}px`,
-          position: 'relative',
-          minWidth: '100vw',
-          minHeight: '100vh'
+          overflow: 'auto',
+          width: '100vw',
+          height: '100vh',
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          zIndex: 10,
+          cursor: 'grab'
         } : {}}
-        onMouseDown={handleBackgroundMouseDown}
-        onContextMenu={(e) => e.preventDefault()} // Prevent right-click menu
+        onContextMenu={variant === 'large' ? (e) => e.preventDefault() : undefined}
       >
-        {orderedGifs.map((gif, index) => {
-          const isDragged = dragState.draggedItem === index;
-          const dragStyle = getDragStyle(index);
-
-          return (
-            <div
-              key={gif.id}
-              className={`collage-item ${getItemClass(index)}`}
-              style={{
-                ...dragStyle,
-                ...(isDragged && variant === 'large' ? {
-                  position: 'absolute' as const,
-                  left: dragStyle.left,
-                  top: dragStyle.top,
-                  zIndex: 1000,
-                  transform: 'none',
-                  width: 'auto',
-                  height: 'auto',
-                  right: 'auto',
-                  bottom: 'auto'
-                } : {}),
-                pointerEvents: 'auto'
-              }}
-              onClick={(e) => {
-                console.log('Element clicked!', { index, gif: gif.id });
-                handleClick(e, gif);
-              }}
-              onMouseDown={(e) => {
-                console.log('Element mousedown!', { index, gif: gif.id });
-                handleMouseDown(e, index);
-              }}
-            >
-              <img
-                src={gif.path}
-                alt={gif.name}
-                className="collage-image"
-                loading="lazy"
-              />
-              <div className="collage-overlay">
-                <h3 className="collage-title">{gif.name}</h3>
+        <div
+          className="collage-grid"
+          style={variant === 'large' ? {
+            width: `${canvasSize.width}px`,
+            height: `${canvasSize.height}px`,
+            position: 'relative',
+            minWidth: '100vw',
+            minHeight: '100vh'
+          } : {}}
+          onContextMenu={(e) => e.preventDefault()} // Prevent right-click menu
+        >
+          {orderedGifs.map((gif, index) => {
+            const isDragged = dragState.draggedItem === index;
+            const dragStyle = getDragStyle(index);
+
+            return (
+              <div
+                // Keyed by arrangement so switching drops any inline styles left from dragging
+                key={variant === 'large' ? `${arrangement.name}-${gif.id}` : gif.id}
+                className={`collage-item ${getItemClass(index)}`}
+                style={{
+                  ...dragStyle,
+                  ...(isDragged && variant === 'large' ? {
+                    position: 'absolute' as const,
+                    left: dragStyle.left,
+                    top: dragStyle.top,
+                    zIndex: 1000,
+                    transform: 'none',
+                    width: 'auto',
+                    height: 'auto',
+                    right: 'auto',
+                    bottom: 'auto'
+                  } : {}),
+                  pointerEvents: 'auto'
+                }}
+                onClick={(e) => {
+                  console.log('Element clicked!', { index, gif: gif.id });
+                  handleClick(e, gif);
+                }}
+                data-index={index}
+              >
+                <img
+                  src={gif.path}
+                  alt={gif.name}
+                  className="collage-image"
+                  loading="lazy"
+                />
+                <div className="collage-overlay">
+                  <h3 className="collage-title">{gif.name}</h3>
+                </div>
               </div>
-            </div>
-          );
-        })}
+            );
+          })}
+        </div>
       </div>
-    </div>
+      {variant === 'large' && (
+        <ArrangementToolbar
+          arrangements={arrangements}
+          active={arrangement}
+          hasSelection={selectedId !== null && !!arrangement.items[selectedId]}
+          onSelect={selectArrangement}
+          onCreate={(name) => addArrangement(createArrangement(name))}
+          onRename={renameArrangement}
+          onDelete={deleteArrangement}
+          onImport={addArrangement}
+        />
+      )}
+    </>
   );
 };
 
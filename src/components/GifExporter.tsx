@@ -0,0 +1,219 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GifItem } from '../types';
+import { CellGrid, EdgeMode } from '../life/engine';
+import { gridBounds } from '../life/formats';
+import { LifeRule } from '../life/rules';
+import { PALETTES } from '../life/palette';
+import { CropRect, MAX_GIF_DIMENSION, recordSimulationGif } from '../life/gifExport';
+import './GifExporter.css';
+
+export interface GifSource {
+  grid: CellGrid;
+  edges: EdgeMode;
+  rule: LifeRule;
+  generation: number;
+  name: string;
+}
+
+interface GifExporterProps {
+  getSource: () => GifSource | null;
+  onAddToGallery?: (gif: GifItem) => void;
+  onClose: () => void;
+}
+
+const CROP_MARGIN = 4;
+const MAX_FRAMES = 2000;
+
+// Bounding box of the current pattern with a little breathing room
+const fitCrop = (grid: CellGrid): CropRect => {
+  const bounds = gridBounds(grid);
+  if (!bounds) return { x: 0, y: 0, width: grid.width, height: grid.height };
+
+  const x = Math.max(0, bounds.minX - CROP_MARGIN);
+  const y = Math.max(0, bounds.minY - CROP_MARGIN);
+  return {
+    x,
+    y,
+    width: Math.min(grid.width, bounds.maxX + CROP_MARGIN + 1) - x,
+    height: Math.min(grid.height, bounds.maxY + CROP_MARGIN + 1) - y
+  };
+};
+
+const GifExporter: React.FC<GifExporterProps> = ({ getSource, onAddToGallery, onClose }) => {
+  const [mode, setMode] = useState<'count' | 'range'>('count');
+  const [frameCount, setFrameCount] = useState(60);
+  const [rangeStart, setRangeStart] = useState(0);
+  const [rangeEnd, setRangeEnd] = useState(120);
+  const [delay, setDelay] = useState(80);
+  const [paletteName, setPaletteName] = useState('moonchild');
+  const [cellSize, setCellSize] = useState(3);
+  const [crop, setCrop] = useState<CropRect>(() => {
+    const source = getSource();
+    return source ? fitCrop(source.grid) : { x: 0, y: 0, width: 100, height: 100 };
+  });
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<{ url: string; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [addedToGallery, setAddedToGallery] = useState(false);
+  const galleryUrlsRef = useRef<Set<string>>(new Set());
+
+  // Revoke the preview URL unless it was handed over to the gallery
+  useEffect(() => {
+    return () => {
+      if (result && !galleryUrlsRef.current.has(result.url)) URL.revokeObjectURL(result.url);
+    };
+  }, [result]);
+
+  const outputWidth = crop.width * cellSize;
+  const outputHeight = crop.height * cellSize;
+  const isTooLarge = outputWidth > MAX_GIF_DIMENSION || outputHeight > MAX_GIF_DIMENSION;
+
+  const updateCrop = (key: keyof CropRect, value: string) => {
+    const parsed = Math.max(key === 'width' || key === 'height' ? 1 : 0, parseInt(value) || 0);
+    setCrop(prev => ({ ...prev, [key]: parsed }));
+  };
+
+  const handleFit = () => {
+    const source = getSource();
+    if (source) setCrop(fitCrop(source.grid));
+  };
+
+  const handleRecord = async () => {
+    const source = getSource();
+    if (!source) return;
+
+    // The inputs' limits are only hints to the browser - typed or pasted values get past them
+    const skip = mode === 'range' ? Math.max(0, rangeStart) : 0;
+    const requested = mode === 'range' ? rangeEnd - rangeStart + 1 : frameCount;
+    const frames = Math.max(1, Math.min(MAX_FRAMES, requested));
+
+    setError(null);
+    setResult(null);
+    setAddedToGallery(false);
+    setProgress({ done: 0, total: frames });
+
+    try {
+      const blob = await recordSimulationGif(source.grid, source.edges, source.rule, {
+        skip,
+        frameCount: frames,
+        delay,
+        cellSize,
+        palette: PALETTES[paletteName],
+        crop
+      }, (done, total) => setProgress({ done, total }));
+
+      const firstGeneration = source.generation + skip;
+      setResult({
+        url: URL.createObjectURL(blob),
+        name: `${source.name} ${firstGeneration}-${firstGeneration + frames - 1}`
+      });
+    } catch (err) {
+      console.error('GIF export failed:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const link = document.createElement('a');
+    link.href = result.url;
+    link.download = `${result.name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'simulation'}.gif`;
+    link.click();
+  };
+
+  const handleAddToGallery = () => {
+    if (!result || !onAddToGallery) return;
+    galleryUrlsRef.current.add(result.url);
+    onAddToGallery({ id: `local-${Date.now()}`, name: result.name, path: result.url });
+    setAddedToGallery(true);
+  };
+
+  return (
+    <div className="gif-exporter">
+      <div className="gif-exporter-header">
+        <span>export gif</span>
+        <button className="life-btn" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="gif-exporter-tabs">
+        <button className={`life-btn ${mode === 'count' ? 'active' : ''}`} onClick={() => setMode('count')}>next n</button>
+        <button className={`life-btn ${mode === 'range' ? 'active' : ''}`} onClick={() => setMode('range')}>range</button>
+      </div>
+
+      {mode === 'count' ? (
+        <label className="gif-exporter-row">
+          <span>frames</span>
+          <input type="number" min={1} max={MAX_FRAMES} value={frameCount} onChange={(e) => setFrameCount(Math.max(1, parseInt(e.target.value) || 1))} />
+        </label>
+      ) : (
+        <label className="gif-exporter-row">
+          <span>gens +</span>
+          <input type="number" min={0} value={rangeStart} onChange={(e) => setRangeStart(Math.max(0, parseInt(e.target.value) || 0))} />
+          <span>to</span>
+          <input type="number" min={rangeStart} max={rangeStart + MAX_FRAMES - 1} value={rangeEnd} onChange={(e) => setRangeEnd(Math.max(rangeStart, parseInt(e.target.value) || 0))} />
+        </label>
+      )}
+
+      <label className="gif-exporter-row">
+        <span>delay ms</span>
+        <input type="number" min={20} max={5000} step={10} value={delay} onChange={(e) => setDelay(Math.max(20, parseInt(e.target.value) || 20))} />
+      </label>
+
+      <label className="gif-exporter-row">
+        <span>cell px</span>
+        <input type="number" min={1} max={32} value={cellSize} onChange={(e) => setCellSize(Math.max(1, Math.min(32, parseInt(e.target.value) || 1)))} />
+      </label>
+
+      <label className="gif-exporter-row">
+        <span>palette</span>
+        <select value={paletteName} onChange={(e) => setPaletteName(e.target.value)}>
+          {Object.keys(PALETTES).map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="gif-exporter-row gif-exporter-crop">
+        <span>crop</span>
+        {(['x', 'y', 'width', 'height'] as const).map(key => (
+          <input
+            key={key}
+            type="number"
+            title={key}
+            value={crop[key]}
+            onChange={(e) => updateCrop(key, e.target.value)}
+          />
+        ))}
+        <button className="life-btn" onClick={handleFit} title="Fit the crop to the current pattern">fit</button>
+      </div>
+
+      <div className={`gif-exporter-size ${isTooLarge ? 'invalid' : ''}`}>
+        {outputWidth}x{outputHeight}px
+      </div>
+
+      <button className="life-btn gif-exporter-record" onClick={handleRecord} disabled={!!progress || isTooLarge}>
+        {progress ? `recording ${progress.done}/${progress.total}` : 'record'}
+      </button>
+
+      {error && <div className="life-error">{error}</div>}
+
+      {result && (
+        <div className="gif-exporter-result">
+          <img src={result.url} alt={result.name} className="gif-exporter-preview" />
+          <div className="gif-exporter-tabs">
+            <button className="life-btn" onClick={handleDownload}>download</button>
+            {onAddToGallery && (
+              <button className="life-btn" onClick={handleAddToGallery} disabled={addedToGallery}>
+                {addedToGallery ? 'added' : 'to gallery'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GifExporter;
@@ -1,10 +1,15 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { usePointerGestures } from '../gestures/usePointerGestures';
+import { useDisplayOrder } from '../navigation/NavigationContext';
+import { readingOrder } from '../navigation/displayOrder';
 import { MediaItem } from '../types';
+import { createRandom, shuffle } from '../utils/random';
 import './IrregularCollage.css';
 
 interface IrregularCollageProps {
   media: MediaItem[];
   onMediaClick: (mediaItem: MediaItem) => void;
+  seed: number; // same seed and window width, same collage
 }
 
 interface PositionedMedia extends MediaItem {
@@ -19,24 +24,14 @@ interface PositionedMedia extends MediaItem {
   loaded: boolean;
 }
 
-const IrregularCollage: React.FC<IrregularCollageProps> = ({ media, onMediaClick }) => {
+const IrregularCollage: React.FC<IrregularCollageProps> = ({ media, onMediaClick, seed }) => {
   const [positionedMedia, setPositionedMedia] = useState<PositionedMedia[]>([]);
   const [containerHeight, setContainerHeight] = useState(3000);
   const [containerWidth, setContainerWidth] = useState(3000);
   const [viewportOffset, setViewportOffset] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [dragStartPos, setDragStartPos] = useState({ x: 0, y: 0 });
   const [hasDragged, setHasDragged] = useState(false);
-
-  const shuffleArray = useCallback(<T,>(array: T[]): T[] => {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  }, []);
+  const collageRef = useRef<HTMLDivElement>(null);
 
   const loadImageDimensions = useCallback((mediaItem: MediaItem): Promise<{naturalWidth: number, naturalHeight: number}> => {
     return new Promise((resolve) => {
@@ -52,7 +47,9 @@ const IrregularCollage: React.FC<IrregularCollageProps> = ({ media, onMediaClick
   }, []);
 
   const generatePositions = useCallback(async () => {
-    const shuffled = shuffleArray(media);
+    // Every random choice comes from the seed, so regenerating (e.g. on resize) is stable
+    const random = createRandom(seed);
+    const shuffled = shuffle(media, random);
     const containerWidth = window.innerWidth * 3; // Allow 3x window width for horizontal scrolling
     const positions: PositionedMedia[] = [];
     const occupiedAreas: { x: number; y: number; width: number; height: number }[] = [];
@@ -71,28 +68,28 @@ const IrregularCollage: React.FC<IrregularCollageProps> = ({ media, onMediaClick
       let displayWidth, displayHeight;
 
       // Create different size categories for more variety
-      const sizeCategory = Math.random();
+      const sizeCategory = random();
       let targetArea, maxDimension;
       
       if (sizeCategory < 0.15) {
         // Extra large showcase images (15%) - reduced from 600k-1M to 300k-500k
-        targetArea = 300000 + Math.random() * 200000;
+        targetArea = 300000 + random() * 200000;
         maxDimension = containerWidth * 0.4;
       } else if (sizeCategory < 0.35) {
         // Large images (20%) - reduced from 400k-600k to 200k-350k
-        targetArea = 200000 + Math.random() * 150000;
+        targetArea = 200000 + random() * 150000;
         maxDimension = containerWidth * 0.3;
       } else if (sizeCategory < 0.65) {
         // Medium images (30%) - reduced slightly
-        targetArea = 150000 + Math.random() * 100000;
+        targetArea = 150000 + random() * 100000;
         maxDimension = containerWidth * 0.25;
       } else if (sizeCategory < 0.85) {
         // Small-medium images (20%)
-        targetArea = 80000 + Math.random() * 70000;
+        targetArea = 80000 + random() * 70000;
         maxDimension = containerWidth * 0.2;
       } else {
         // Small accent images (15%)
-        targetArea = 40000 + Math.random() * 60000;
+        targetArea = 40000 + random() * 60000;
         maxDimension = containerWidth * 0.12;
       }
 
@@ -159,8 +156,8 @@ const IrregularCollage: React.FC<IrregularCollageProps> = ({ media, onMediaClick
       
       // Secondary pass: try with some randomization for more organic placement
       for (let attempt = 0; attempt < 20; attempt++) {
-        const x = Math.random() * (maxWidth - 10) + 5;
-        const y = Math.random() * currentMaxHeight + 5;
+        const x = random() * (maxWidth - 10) + 5;
+        const y = random() * currentMaxHeight + 5;
         if (!isOverlapping(x, y, width, height)) {
           return { x, y };
         }
@@ -168,7 +165,7 @@ const IrregularCollage: React.FC<IrregularCollageProps> = ({ media, onMediaClick
       
       // Fallback: place at bottom
       const maxY = Math.max(0, ...occupiedAreas.map(area => area.y + area.height));
-      return { x: 5 + Math.random() * 100, y: maxY + 10 };
+      return { x: 5 + random() * 100, y: maxY + 10 };
     };
 
     sortedItems.forEach((item) => {
@@ -187,7 +184,7 @@ const IrregularCollage: React.FC<IrregularCollageProps> = ({ media, onMediaClick
         y: position.y,
         width: displayWidth,
         height: displayHeight,
-        zIndex: Math.floor(Math.random() * 25) + 1, // Wider z-index range for better layering
+        zIndex: Math.floor(random() * 25) + 1, // Wider z-index range for better layering
         opacity: 1,
         loaded: true
       });
@@ -200,7 +197,7 @@ const IrregularCollage: React.FC<IrregularCollageProps> = ({ media, onMediaClick
     setContainerWidth(Math.max(maxX + 50, window.innerWidth));
     
     return positions;
-  }, [media, shuffleArray, loadImageDimensions]);
+  }, [media, seed, loadImageDimensions]);
 
   useEffect(() => {
     const loadPositions = async () => {
@@ -221,66 +218,40 @@ const IrregularCollage: React.FC<IrregularCollageProps> = ({ media, onMediaClick
     return () => window.removeEventListener('resize', handleResize);
   }, [generatePositions]);
 
-  // Viewport navigation handlers
-  const handleMouseDown = useCallback((e: React.MouseEvent) => {
-    // Allow dragging from anywhere in the collage (background or images)
-    // Only left click for viewport dragging (right click for other actions)
-    if (e.button !== 0) return;
-
-    setIsDragging(true);
-    setDragStart({ x: e.clientX - viewportOffset.x, y: e.clientY - viewportOffset.y });
-    setDragStartPos({ x: e.clientX, y: e.clientY });
-    setHasDragged(false);
-    e.preventDefault();
-  }, [viewportOffset]);
+  // The lightbox reads the collage like a page, by where each item landed
+  const displayOrder = useMemo(
+    () => readingOrder(positionedMedia.map(({ id, x, y, height, zIndex }) => ({ id, x, y, height, z: zIndex }))),
+    [positionedMedia]
+  );
+  useDisplayOrder(displayOrder);
 
-  const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (!isDragging) return;
-    
-    // Check if we've moved enough to be considered a drag (5px threshold)
-    const deltaX = Math.abs(e.clientX - dragStartPos.x);
-    const deltaY = Math.abs(e.clientY - dragStartPos.y);
-    if (deltaX > 5 || deltaY > 5) {
+  // Viewport navigation: drag or flick from anywhere in the collage (background or images)
+  usePointerGestures(collageRef, {
+    // Only left click for viewport dragging (right click for other actions)
+    onStart: (_point, e) => {
+      if (e.button !== 0) return false;
+      setIsDragging(true);
+      setHasDragged(false);
+    },
+    onPan: (delta) => {
       setHasDragged(true);
-    }
-    
-    const newOffset = {
-      x: e.clientX - dragStart.x,
-      y: e.clientY - dragStart.y
-    };
-    
-    // Constrain viewport to prevent over-scrolling
-    const maxOffsetX = Math.min(0, window.innerWidth - containerWidth);
-    const maxOffsetY = Math.min(0, window.innerHeight - containerHeight);
-    
-    setViewportOffset({
-      x: Math.max(maxOffsetX, Math.min(0, newOffset.x)),
-      y: Math.max(maxOffsetY, Math.min(0, newOffset.y))
-    });
-  }, [isDragging, dragStart, dragStartPos, containerWidth, containerHeight]);
 
-  const handleMouseUp = useCallback(() => {
-    setIsDragging(false);
-  }, []);
+      // Constrain viewport to prevent over-scrolling
+      const maxOffsetX = Math.min(0, window.innerWidth - containerWidth);
+      const maxOffsetY = Math.min(0, window.innerHeight - containerHeight);
 
-  // Add global mouse event listeners for viewport navigation
-  useEffect(() => {
-    if (isDragging) {
-      document.addEventListener('mousemove', handleMouseMove);
-      document.addEventListener('mouseup', handleMouseUp);
-      document.body.style.cursor = 'grabbing';
-      
-      return () => {
-        document.removeEventListener('mousemove', handleMouseMove);
-        document.removeEventListener('mouseup', handleMouseUp);
-        document.body.style.cursor = '';
-      };
-    }
-  }, [isDragging, handleMouseMove, handleMouseUp]);
+      setViewportOffset(offset => ({
+        x: Math.max(maxOffsetX, Math.min(0, offset.x + delta.x)),
+        y: Math.max(maxOffsetY, Math.min(0, offset.y + delta.y))
+      }));
+    },
+    onEnd: () => setIsDragging(false)
+  }, { inertia: true });
 
   return (
     <div className="irregular-collage-viewport" style={{ width: '100vw', height: '100vh', overflow: 'auto', position: 'relative', background: '#0a1628' }}>
       <div
+        ref={collageRef}
         className="irregular-collage"
         style={{
           height: `${containerHeight}px`,
@@ -288,7 +259,6 @@ const IrregularCollage: React.FC<IrregularCollageProps> = ({ media, onMediaClick
           transform: `translate(${viewportOffset.x}px, ${viewportOffset.y}px)`,
           cursor: isDragging ? 'grabbing' : 'grab'
         }}
-        onMouseDown={handleMouseDown}
         onContextMenu={(e) => e.preventDefault()}
       >
       {positionedMedia.map((item) => (
@@ -304,7 +274,6 @@ const IrregularCollage: React.FC<IrregularCollageProps> = ({ media, onMediaClick
             zIndex: item.zIndex,
             opacity: 1
           }}
-          onMouseDown={handleMouseDown}
           onClick={(e) => {
             // Only trigger media click if we weren't dragging
             if (!hasDragged) {
@@ -315,7 +284,7 @@ const IrregularCollage: React.FC<IrregularCollageProps> = ({ media, onMediaClick
         >
           <img
             src={item.path}
-            alt=""
+            alt={item.name}
             className="collage-image"
             loading="lazy"
             draggable={false}
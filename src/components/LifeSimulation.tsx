@@ -0,0 +1,673 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import GifExporter, { GifSource } from './GifExporter';
+import { GifItem } from '../types';
+import { CellGrid, EdgeMode } from '../life/engine';
+import { isHashLifeCompatible } from '../life/hashlife';
+import { createSimulationClient, SimulationClient } from '../life/simulationClient';
+import { gridBounds, LifePattern, PatternFormat, trimGrid } from '../life/formats';
+import { describePatternFileError, downloadPattern, getDroppedPatternFile, readPatternFile } from '../life/patternFiles';
+import { CONWAY_RULE, formatRule, KNOWN_RULES, LifeRule, parseRule } from '../life/rules';
+import { buildColourRamp, RGB } from '../life/palette';
+import { readSharedRule, readSharedSimulation, SharedSimulation, writeSharedRule, writeSharedSimulation } from '../life/share';
+import { useAudioLevels } from '../audio/AudioLevelsContext';
+import { useAudioGraph } from '../audio/AudioGraphContext';
+import { createSonifier, ScaleName, SCALE_NAMES, Sonifier, SonifyMapping, SONIFY_MAPPINGS } from '../audio/sonifier';
+import './LifeSimulation.css';
+
+const CELL_SIZE = 6;
+const INITIAL_DENSITY = 0.18;
+// The array stepper does jumps one generation at a time, so keep them modest
+const MAX_ARRAY_JUMP = 10;
+const MAX_HASHLIFE_JUMP = 40;
+const EDGE_MODES: EdgeMode[] = ['wrap', 'bounded', 'infinite'];
+
+interface LifeSimulationProps {
+  seed?: LifePattern | null;
+  onAddToGallery?: (gif: GifItem) => void;
+}
+
+// Exact grid dimensions and pattern position, used when replaying a shared link
+interface GridFrame {
+  width: number;
+  height: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Largest cell size (up to the default) that still fits the whole seed on screen
+const getCellSizeFor = (seed?: { width: number; height: number } | null) => {
+  if (!seed || !seed.width || !seed.height) return CELL_SIZE;
+  const fit = Math.floor(Math.min(window.innerWidth / seed.width, window.innerHeight / seed.height));
+  return Math.max(1, Math.min(CELL_SIZE, fit));
+};
+
+// Cells across and down the viewport
+const viewportSize = (cellSize: number) => ({
+  width: Math.max(1, Math.ceil(window.innerWidth / cellSize)),
+  height: Math.max(1, Math.ceil(window.innerHeight / cellSize))
+});
+
+// Builds the starting grid for the viewport, from a seed pattern or from random soup
+const buildViewportGrid = (cellSize: number, seed?: CellGrid | null, frame?: GridFrame | null): CellGrid => {
+  const viewport = viewportSize(cellSize);
+  const width = frame?.width ?? Math.max(viewport.width, seed?.width ?? 0);
+  const height = frame?.height ?? Math.max(viewport.height, seed?.height ?? 0);
+  const cells = new Uint8Array(width * height);
+
+  if (seed) {
+    // Shared links place the pattern exactly, anything else is centred
+    const offsetX = frame?.offsetX ?? Math.floor((width - seed.width) / 2);
+    const offsetY = frame?.offsetY ?? Math.floor((height - seed.height) / 2);
+    for (let y = 0; y < seed.height; y++) {
+      for (let x = 0; x < seed.width; x++) {
+        const tx = x + offsetX;
+        const ty = y + offsetY;
+        if (tx >= 0 && ty >= 0 && tx < width && ty < height) {
+          cells[ty * width + tx] = seed.cells[y * seed.width + x];
+        }
+      }
+    }
+  } else {
+    for (let i = 0; i < cells.length; i++) {
+      cells[i] = Math.random() < INITIAL_DENSITY ? 1 : 0;
+    }
+  }
+
+  return { width, height, cells };
+};
+
+const snapshotOf = (client: SimulationClient): CellGrid => ({
+  width: client.width,
+  height: client.height,
+  cells: client.snapshot()
+});
+
+const safeParseRule = (text?: string | null): LifeRule | null => {
+  if (!text) return null;
+  try {
+    return parseRule(text);
+  } catch (error) {
+    console.warn(error);
+    return null;
+  }
+};
+
+const LifeSimulation: React.FC<LifeSimulationProps> = ({ seed, onAddToGallery }) => {
+  // A link with a full simulation in it only applies when nothing else was requested
+  const [shared] = useState<SharedSimulation | null>(() => (seed ? null : readSharedSimulation()));
+  const [pattern, setPattern] = useState<LifePattern | null>(seed ?? shared?.pattern ?? null);
+  const [rule, setRule] = useState(() => {
+    const initial = safeParseRule(seed?.rule ?? shared?.rule ?? readSharedRule()) ?? parseRule(CONWAY_RULE);
+    return formatRule(initial);
+  });
+  const [ruleInput, setRuleInput] = useState(rule);
+  const [isRuleInvalid, setIsRuleInvalid] = useState(false);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [isRunning, setIsRunning] = useState(!shared);
+  const [speed, setSpeed] = useState(12); // generations per second
+  const [isBeatSynced, setIsBeatSynced] = useState(false); // step on soundtrack onsets instead of the speed
+  const [sonifyMapping, setSonifyMapping] = useState<SonifyMapping | null>(null); // null plays nothing
+  const [sonifyScale, setSonifyScale] = useState<ScaleName>('pentatonic');
+  const [edges, setEdges] = useState<EdgeMode>(shared?.edges ?? 'wrap');
+  const [jumpLog2, setJumpLog2] = useState(6);
+  const [isGifExporterOpen, setIsGifExporterOpen] = useState(false);
+  const [generation, setGeneration] = useState(0);
+  const [population, setPopulation] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const bufferRef = useRef<HTMLCanvasElement | null>(null);
+  const engineRef = useRef<SimulationClient | null>(null);
+  const frameRef = useRef<GridFrame | null>(shared);
+  const cellSizeRef = useRef(getCellSizeFor(shared ?? pattern?.grid));
+  const colourRampRef = useRef<RGB[]>(buildColourRamp(parseRule(rule).states));
+  const isPaintingRef = useRef(false);
+  const paintStateRef = useRef(1);
+  const sonifierRef = useRef<Sonifier | null>(null);
+  const { getGraph, graphStatus } = useAudioGraph();
+  const isSonifyUnavailable = graphStatus === 'unavailable';
+
+  const [engineError, setEngineError] = useState<string | null>(null);
+  const [dropError, setDropError] = useState<string | null>(null);
+
+  // Renders one pixel per cell into an offscreen buffer, then scales it up unsmoothed
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const engine = engineRef.current;
+    if (!canvas || !engine) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    if (!bufferRef.current) {
+      bufferRef.current = document.createElement('canvas');
+    }
+    const buffer = bufferRef.current;
+    if (buffer.width !== engine.width || buffer.height !== engine.height) {
+      buffer.width = engine.width;
+      buffer.height = engine.height;
+    }
+
+    const bufferCtx = buffer.getContext('2d');
+    if (!bufferCtx) return;
+
+    const image = bufferCtx.createImageData(engine.width, engine.height);
+    const cells = engine.snapshot();
+    const ramp = colourRampRef.current;
+    for (let i = 0; i < cells.length; i++) {
+      const [r, g, b] = ramp[cells[i]] ?? ramp[1];
+      image.data[i * 4] = r;
+      image.data[i * 4 + 1] = g;
+      image.data[i * 4 + 2] = b;
+      image.data[i * 4 + 3] = 255;
+    }
+    sonifierRef.current?.frame(cells, engine.width, engine.generation);
+    bufferCtx.putImageData(image, 0, 0);
+
+    const cellSize = cellSizeRef.current;
+    ctx.fillStyle = '#0a1628';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(buffer, 0, 0, engine.width * cellSize, engine.height * cellSize);
+
+    setGeneration(engine.generation);
+    setPopulation(engine.population());
+  }, []);
+
+  // The engine runs in a worker for the lifetime of the view; frames arrive asynchronously
+  useEffect(() => {
+    const grid = buildViewportGrid(cellSizeRef.current, pattern?.grid, frameRef.current);
+    const client = createSimulationClient(grid, edges, parseRule(rule));
+    client.onFrame(draw);
+    client.onError(setEngineError);
+    engineRef.current = client;
+    draw();
+
+    return () => {
+      client.dispose();
+      engineRef.current = null;
+    };
+  }, [draw]); // Only once - later pattern, rule and edge changes are sent to the running worker
+
+  const stepOnce = useCallback(() => {
+    engineRef.current?.step();
+  }, []);
+
+  // Size the canvas to the viewport and rebuild the grid on resize
+  useEffect(() => {
+    const resizeCanvas = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.width = window.innerWidth;
+      canvas.height = window.innerHeight;
+    };
+
+    const handleResize = () => {
+      // A shared link keeps its exact grid so the evolution stays identical. Anything else
+      // re-fits the running grid in place - the pattern and its generation carry on.
+      const client = engineRef.current;
+      if (!frameRef.current && client) {
+        const { width, height } = viewportSize(cellSizeRef.current);
+        client.resize(width, height);
+      }
+      resizeCanvas();
+      draw();
+    };
+
+    resizeCanvas();
+    draw();
+
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [draw]);
+
+  useEffect(() => {
+    if (engineRef.current) {
+      engineRef.current.edges = edges;
+    }
+    setEngineError(null);
+  }, [edges]);
+
+  useEffect(() => {
+    const parsed = parseRule(rule);
+    const client = engineRef.current;
+    // HashLife can't run Generations or B0 rules, so drop back to a bounded grid first
+    if (!isHashLifeCompatible(parsed)) {
+      if (client?.edges === 'infinite') client.edges = 'bounded';
+      setEdges(prev => (prev === 'infinite' ? 'bounded' : prev));
+    }
+    colourRampRef.current = buildColourRamp(parsed.states);
+    if (client) {
+      client.rule = parsed;
+    }
+    setRuleInput(rule);
+    setIsRuleInvalid(false);
+    draw();
+  }, [rule, draw]);
+
+  // The rule lives in the URL so a shared link reproduces the same evolution. Only changes
+  // are written - a visit that never touches the rule leaves the URL alone.
+  const changeRule = (next: string) => {
+    if (next !== rule) writeSharedRule(next);
+    setRule(next);
+  };
+
+  // A new seed from the lightbox replaces whatever pattern is loaded
+  useEffect(() => {
+    if (seed) setPattern(seed);
+  }, [seed]);
+
+  // Loading a pattern (seed or dropped file) rebuilds the grid around it and adopts its rule
+  const lastPatternRef = useRef(pattern);
+  useEffect(() => {
+    if (pattern === lastPatternRef.current) return;
+    lastPatternRef.current = pattern;
+
+    const patternRule = safeParseRule(pattern?.rule);
+    const engineRule = patternRule ?? engineRef.current?.rule ?? parseRule(CONWAY_RULE);
+    if (patternRule) {
+      changeRule(formatRule(patternRule));
+    }
+
+    frameRef.current = null;
+    cellSizeRef.current = getCellSizeFor(pattern?.grid);
+    const client = engineRef.current;
+    if (client) {
+      const nextEdges = client.edges === 'infinite' && !isHashLifeCompatible(engineRule) ? 'bounded' : client.edges;
+      client.load(buildViewportGrid(cellSizeRef.current, pattern?.grid), nextEdges, engineRule);
+      setEdges(nextEdges);
+    }
+    draw();
+  }, [pattern, draw]);
+
+  // Animation loop - steps at the chosen speed, independent of frame rate
+  useEffect(() => {
+    if (!isRunning || isBeatSynced) return;
+
+    let frameId: number;
+    let lastStep = performance.now();
+
+    const tick = (now: number) => {
+      const interval = 1000 / speed;
+      const client = engineRef.current;
+      // Skip a beat rather than queue work while the worker is still busy
+      if (now - lastStep >= interval && client && client.pending === 0) {
+        const generations = Math.min(Math.floor((now - lastStep) / interval), 4);
+        client.step(generations);
+        lastStep = now;
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isRunning, isBeatSynced, speed, draw]);
+
+  // Sonification plays on the soundtrack's AudioContext, after its volume control,
+  // so it layers under the music and ends up in recordings
+  useEffect(() => {
+    if (!sonifyMapping) return;
+
+    const graph = getGraph();
+    if (!graph) {
+      console.warn('No audio graph to play the simulation on');
+      setSonifyMapping(null);
+      return;
+    }
+    // Choosing a mapping is a user gesture, so a context still waiting for one can start now
+    graph.context.resume().catch(error => console.warn('Could not resume audio for sonification:', error));
+
+    const sonifier = createSonifier(graph.context, graph.output, sonifyMapping, sonifyScale);
+    sonifierRef.current = sonifier;
+    return () => {
+      sonifier.dispose();
+      sonifierRef.current = null;
+    };
+  }, [sonifyMapping, sonifyScale, graphStatus, getGraph]); // A fallback to HTML5 audio loses the graph and turns it off
+
+  // Beat sync - one generation per detected onset in the soundtrack
+  useAudioLevels(({ onset }) => {
+    const client = engineRef.current;
+    if (onset && client && client.pending === 0) {
+      client.step();
+    }
+  }, isRunning && isBeatSynced);
+
+  // Space toggles playback, N steps a single generation
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+
+      if (e.key === ' ') {
+        e.preventDefault();
+        setIsRunning(prev => !prev);
+      } else if (e.key === 'n' || e.key === 'N') {
+        setIsRunning(false);
+        stepOnce();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [stepOnce]);
+
+  const getCellFromEvent = (e: React.MouseEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.floor((e.clientX - rect.left) / cellSizeRef.current),
+      y: Math.floor((e.clientY - rect.top) / cellSizeRef.current)
+    };
+  };
+
+  // Draw cells with the mouse - the first cell decides whether we paint or erase
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const engine = engineRef.current;
+    if (!engine || e.button !== 0) return;
+
+    const { x, y } = getCellFromEvent(e);
+    paintStateRef.current = engine.getCell(x, y) === 1 ? 0 : 1;
+    isPaintingRef.current = true;
+    engine.setCell(x, y, paintStateRef.current);
+    draw();
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!isPaintingRef.current || !engineRef.current) return;
+
+    const { x, y } = getCellFromEvent(e);
+    engineRef.current.setCell(x, y, paintStateRef.current);
+    draw();
+  };
+
+  const handleMouseUp = () => {
+    isPaintingRef.current = false;
+  };
+
+  const handleRandomize = () => {
+    engineRef.current?.randomize(INITIAL_DENSITY);
+  };
+
+  const maxJump = edges === 'infinite' ? MAX_HASHLIFE_JUMP : MAX_ARRAY_JUMP;
+
+  const handleJump = () => {
+    setIsRunning(false);
+    engineRef.current?.jump(Math.min(jumpLog2, maxJump));
+  };
+
+  const cycleEdges = () => {
+    const compatible = isHashLifeCompatible(parseRule(rule));
+    setEdges(prev => {
+      const available = EDGE_MODES.filter(mode => mode !== 'infinite' || compatible);
+      return available[(available.indexOf(prev) + 1) % available.length];
+    });
+  };
+
+  const applyRuleInput = () => {
+    const parsed = safeParseRule(ruleInput);
+    if (!parsed) {
+      setIsRuleInvalid(true);
+      return;
+    }
+    changeRule(formatRule(parsed));
+  };
+
+  const getCurrentPattern = (): LifePattern | null => {
+    const engine = engineRef.current;
+    if (!engine) return null;
+
+    return {
+      name: pattern?.name ? `${pattern.name} gen ${engine.generation}` : `moonchild gen ${engine.generation}`,
+      author: pattern?.author,
+      comments: pattern?.comments ?? [],
+      rule,
+      grid: trimGrid({ width: engine.width, height: engine.height, cells: engine.snapshot() })
+    };
+  };
+
+  const handleExport = (format: PatternFormat) => {
+    const current = getCurrentPattern();
+    if (current) {
+      downloadPattern(current, format);
+    }
+  };
+
+  // The exporter replays from the state on screen right now
+  const getGifSource = (): GifSource | null => {
+    const client = engineRef.current;
+    if (!client) return null;
+    return {
+      grid: snapshotOf(client),
+      edges: client.edges,
+      rule: client.rule,
+      generation: client.generation,
+      name: pattern?.name ?? 'moonchild'
+    };
+  };
+
+  // Encodes the current state, rule, edges and grid size into the URL and copies it
+  const handleShare = async () => {
+    const engine = engineRef.current;
+    const current = getCurrentPattern();
+    if (!engine || !current) return;
+
+    const bounds = gridBounds({ width: engine.width, height: engine.height, cells: engine.snapshot() });
+    const url = writeSharedSimulation({
+      rule,
+      edges: engine.edges,
+      width: engine.width,
+      height: engine.height,
+      offsetX: bounds?.minX ?? 0,
+      offsetY: bounds?.minY ?? 0,
+      pattern: current
+    });
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy simulation link:', error);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDropTarget(true);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDropTarget(false);
+
+    const file = getDroppedPatternFile(e);
+    if (!file) return;
+
+    try {
+      setPattern(await readPatternFile(file));
+      setDropError(null);
+    } catch (error) {
+      console.error('Failed to load pattern file:', error);
+      setDropError(describePatternFileError(file, error));
+    }
+  };
+
+  const handleClear = () => {
+    engineRef.current?.clear();
+    setIsRunning(false);
+  };
+
+  return (
+    <div
+      className={`life-simulation ${isDropTarget ? 'drop-target' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDropTarget(false)}
+      onDrop={handleDrop}
+    >
+      <canvas
+        ref={canvasRef}
+        className="life-canvas"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+        onContextMenu={(e) => e.preventDefault()}
+      />
+
+      <div className="life-controls">
+        <div className="life-buttons">
+          <button className="life-btn" onClick={() => setIsRunning(prev => !prev)} title="Play / pause (Space)">
+            {isRunning ? '❚❚' : '▶'}
+          </button>
+          <button className="life-btn" onClick={() => { setIsRunning(false); stepOnce(); }} title="Step (N)">
+            ▷|
+          </button>
+          <button
+            className={`life-btn ${isBeatSynced ? 'active' : ''}`}
+            onClick={() => setIsBeatSynced(prev => !prev)}
+            title="Step on the beat of the soundtrack"
+          >
+            ♪
+          </button>
+          <button className="life-btn" onClick={handleRandomize} title="Randomize">
+            ⁂
+          </button>
+          <button className="life-btn" onClick={handleClear} title="Clear">
+            ✕
+          </button>
+        </div>
+
+        <label className="life-row">
+          <span>speed</span>
+          <input
+            type="range"
+            className="life-slider"
+            min={1}
+            max={60}
+            value={speed}
+            onChange={(e) => setSpeed(parseInt(e.target.value))}
+          />
+        </label>
+
+        <label className={`life-row life-rule ${isRuleInvalid ? 'invalid' : ''}`}>
+          <span>rule</span>
+          <input
+            type="text"
+            className="life-rule-input"
+            list="life-known-rules"
+            value={ruleInput}
+            spellCheck={false}
+            onChange={(e) => {
+              setRuleInput(e.target.value);
+              setIsRuleInvalid(false);
+            }}
+            onBlur={applyRuleInput}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') applyRuleInput();
+            }}
+          />
+          <datalist id="life-known-rules">
+            {KNOWN_RULES.map(known => (
+              <option key={known.rule} value={known.rule}>{known.name}</option>
+            ))}
+          </datalist>
+        </label>
+
+        <button
+          className="life-btn life-edges"
+          onClick={cycleEdges}
+          title="Wrapped, bounded, or an unbounded plane run by HashLife"
+        >
+          edges: {edges}
+        </button>
+
+        <div className="life-row life-jump">
+          <span>jump</span>
+          <input
+            type="number"
+            className="life-jump-input"
+            min={0}
+            max={maxJump}
+            value={Math.min(jumpLog2, maxJump)}
+            onChange={(e) => setJumpLog2(Math.max(0, Math.min(maxJump, parseInt(e.target.value) || 0)))}
+            title="Jump 2^n generations"
+          />
+          <button className="life-btn" onClick={handleJump} title={`Advance 2^${Math.min(jumpLog2, maxJump)} generations`}>
+            2^n
+          </button>
+        </div>
+
+        <div className="life-row life-sound">
+          <span>sound</span>
+          <select
+            className="life-select"
+            value={sonifyMapping ?? 'off'}
+            onChange={(e) => setSonifyMapping(e.target.value === 'off' ? null : e.target.value as SonifyMapping)}
+            disabled={isSonifyUnavailable}
+            title={isSonifyUnavailable
+              ? 'Sound needs Web Audio - the soundtrack is playing through HTML5 audio in this browser'
+              : 'Play the simulation: population, births and deaths, or a strum across the columns'}
+          >
+            <option value="off">off</option>
+            {SONIFY_MAPPINGS.map(mapping => (
+              <option key={mapping} value={mapping}>{mapping}</option>
+            ))}
+          </select>
+          <select
+            className="life-select"
+            value={sonifyScale}
+            onChange={(e) => setSonifyScale(e.target.value as ScaleName)}
+            disabled={!sonifyMapping}
+            title="Scale"
+          >
+            {SCALE_NAMES.map(scale => (
+              <option key={scale} value={scale}>{scale}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="life-export">
+          <span>export</span>
+          <button className="life-btn" onClick={() => handleExport('rle')} title="Export as RLE">rle</button>
+          <button className="life-btn" onClick={() => handleExport('plaintext')} title="Export as plaintext (.cells)">cells</button>
+          <button className="life-btn" onClick={() => handleExport('life106')} title="Export as Life 1.06">lif</button>
+        </div>
+
+        <button className="life-btn life-edges" onClick={handleShare} title="Copy a link that replays this exact simulation">
+          {linkCopied ? 'link copied' : 'copy link'}
+        </button>
+
+        <button
+          className={`life-btn life-edges ${isGifExporterOpen ? 'active' : ''}`}
+          onClick={() => {
+            setIsRunning(false);
+            setIsGifExporterOpen(prev => !prev);
+          }}
+          title="Record generations as an animated GIF"
+        >
+          export gif
+        </button>
+
+        <div className="life-stats">
+          <span>gen {generation}</span>
+          <span>pop {population}</span>
+        </div>
+
+        {engineError && <div className="life-error">{engineError}</div>}
+        {dropError && <div className="life-error">{dropError}</div>}
+
+        {pattern?.name && <div className="life-pattern-name" title={pattern.comments.join('\n')}>{pattern.name}</div>}
+      </div>
+
+      {isGifExporterOpen && (
+        <GifExporter
+          getSource={getGifSource}
+          onAddToGallery={onAddToGallery}
+          onClose={() => setIsGifExporterOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LifeSimulation;
@@ -1,5 +1,12 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { GifItem } from '../types';
+import { decodeImageElement } from '../life/imageDecoder';
+import { LifePattern, PatternFormat, trimGrid } from '../life/formats';
+import { CONWAY_RULE } from '../life/rules';
+import { describePatternFileError, downloadPattern, getDroppedPatternFile, readPatternFile } from '../life/patternFiles';
+import { usePointerGestures } from '../gestures/usePointerGestures';
+import { PLAYBACK_SPEEDS, useGifPlayer } from '../media/useGifPlayer';
+import { centerOn, clampView, FIT_VIEW, panView, pixelScale, viewRect, ZoomFrame, ZoomView, zoomAround } from '../gestures/zoomView';
 import './Lightbox.css';
 
 interface LightboxProps {
@@ -8,29 +15,127 @@ interface LightboxProps {
   onClose: () => void;
   onNext?: () => void;
   onPrevious?: () => void;
+  preload?: GifItem[]; // the items either side, loaded ahead of time
+  loopLength?: number; // seconds in one loop of the playing track, 0 when nothing plays
+  trackBoundary?: number; // bumped each time the playing track loops or ends
+  onSimulate?: (seed: LifePattern) => void;
 }
 
-const Lightbox: React.FC<LightboxProps> = ({ gif, isOpen, onClose, onNext, onPrevious }) => {
-  const [isZoomed, setIsZoomed] = useState(false);
+// Seconds per item, or one loop of the playing track
+type SlideshowInterval = number | 'track';
+
+// Where the cells of a Life still are, in image pixels
+interface CellLattice {
+  cellSize: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+const PIXEL_LATTICE: CellLattice = { cellSize: 1, offsetX: 0, offsetY: 0 };
+const TAP_ZOOM = 2;
+const WHEEL_ZOOM_SPEED = 0.002; // per px scrolled
+const PIXELATED_SCALE = 2; // screen px per image px where smoothing stops
+const MIN_GRID_CELL = 4; // px - finer grids would just grey the image out
+const SLIDESHOW_INTERVALS = [3, 5, 10, 20]; // seconds
+const DEFAULT_SLIDESHOW_INTERVAL = 5;
+
+const Lightbox: React.FC<LightboxProps> = ({
+  gif,
+  isOpen,
+  onClose,
+  onNext,
+  onPrevious,
+  preload = [],
+  loopLength = 0,
+  trackBoundary = 0,
+  onSimulate
+}) => {
+  // zoom 1 is fit-to-screen; isZoomed is anything closer than that
+  const [view, setView] = useState<ZoomView>(FIT_VIEW);
+  const isZoomed = view.zoom > 1;
+  // Both stay on across items so visitors can browse with the details or grid visible
+  const [isInfoOpen, setIsInfoOpen] = useState(false);
+  const [isGridVisible, setIsGridVisible] = useState(false);
+  const [lattice, setLattice] = useState<CellLattice | null>(null);
+  const [loadedPath, setLoadedPath] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
-  const [imagePosition, setImagePosition] = useState({ x: 0, y: 0 });
+  const [isSlideshow, setIsSlideshow] = useState(false);
+  const [dropError, setDropError] = useState<string | null>(null);
+  const [slideshowInterval, setSlideshowInterval] = useState<SlideshowInterval>(DEFAULT_SLIDESHOW_INTERVAL);
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
-  const dragStartRef = useRef({ x: 0, y: 0 });
-  const imagePositionRef = useRef({ x: 0, y: 0 });
-  
+  // Animated GIFs play on a canvas instead of the <img> once they've been decoded
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const player = useGifPlayer(canvasRef, isOpen && gif ? gif.path : null);
+
+  // Whichever of the two is on screen
+  const getMedia = () => canvasRef.current ?? imageRef.current;
+
+  // Where the image sits at fit-to-screen, or null until it has loaded
+  const getFrame = (): ZoomFrame | null => {
+    const media = getMedia();
+    const container = containerRef.current;
+    if (!media || !container) return null;
+
+    const natural = media instanceof HTMLCanvasElement
+      ? { width: media.width, height: media.height }
+      : { width: media.naturalWidth, height: media.naturalHeight };
+    if (!natural.width) return null;
+
+    const rect = container.getBoundingClientRect();
+    return {
+      natural,
+      fitted: { width: media.offsetWidth, height: media.offsetHeight },
+      center: { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 },
+      viewport: { width: window.innerWidth, height: window.innerHeight }
+    };
+  };
+
+  const resetZoom = () => setView(FIT_VIEW);
+  const { isReady: isAnimated, togglePlaying } = player;
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (!isOpen) return;
+      // The frame scrubber and interval menu use the arrow keys themselves
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
       
       switch (e.key) {
+        case 'ArrowLeft':
+        case 'a':
+        case 'A':
+          onPrevious?.();
+          break;
+        case 'ArrowRight':
+        case 'd':
+        case 'D':
+          onNext?.();
+          break;
+        case 's':
+        case 'S':
+          setIsSlideshow(prev => !prev);
+          break;
         case 'Escape':
           if (isZoomed) {
-            setIsZoomed(false);
+            resetZoom();
           } else {
             onClose();
           }
           break;
+        case 'i':
+        case 'I':
+          setIsInfoOpen(prev => !prev);
+          break;
+        case 'g':
+        case 'G':
+          setIsGridVisible(prev => !prev);
+          break;
+        case ' ':
+          if (isAnimated) {
+            e.preventDefault();
+            togglePlaying();
+          }
+          break;
       }
     };
 
@@ -46,94 +151,439 @@ const Lightbox: React.FC<LightboxProps> = ({ gif, isOpen, onClose, onNext, onPre
       document.removeEventListener('keydown', handleKeyDown);
       document.body.style.overflow = '';
     };
-  }, [isOpen, isZoomed, onClose, onNext, onPrevious]);
+  }, [isOpen, isZoomed, isAnimated, togglePlaying, onClose, onNext, onPrevious]);
+
+  // The slideshow stops when the lightbox closes
+  useEffect(() => {
+    if (!isOpen) setIsSlideshow(false);
+  }, [isOpen]);
+
+  // App re-renders on every mouse move; reading onNext through a ref keeps the slideshow
+  // timer from restarting each time
+  const onNextRef = useRef(onNext);
+  onNextRef.current = onNext;
+  // Following the track only works while one plays; otherwise the default interval stands in
+  const isTrackPaced = slideshowInterval === 'track' && loopLength > 0;
+  const slideshowSeconds = slideshowInterval === 'track' ? DEFAULT_SLIDESHOW_INTERVAL : slideshowInterval;
+  // Holds off while zoomed in, since the visitor is looking closely
+  const isAdvancing = isOpen && isSlideshow && !isZoomed;
+
+  useEffect(() => {
+    if (!isAdvancing || isTrackPaced) return;
+    const timer = setTimeout(() => onNextRef.current?.(), slideshowSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [isAdvancing, isTrackPaced, gif, slideshowSeconds]);
+
+  // Paced by the track, the next item comes in as the loop comes round
+  const lastBoundaryRef = useRef(trackBoundary);
+  useEffect(() => {
+    if (trackBoundary === lastBoundaryRef.current) return;
+    lastBoundaryRef.current = trackBoundary;
+    if (isAdvancing && isTrackPaced) onNextRef.current?.();
+  }, [trackBoundary, isAdvancing, isTrackPaced]);
+
+  // Each neighbour is requested once; after that the browser cache has it
+  const preloadedRef = useRef(new Set<string>());
+  useEffect(() => {
+    if (!isOpen) return;
+    preload.forEach(item => {
+      if (preloadedRef.current.has(item.path)) return;
+      preloadedRef.current.add(item.path);
+      const image = new Image();
+      image.src = item.path;
+    });
+  }, [isOpen, preload]);
 
   // Reset zoom when gif changes
   useEffect(() => {
-    setIsZoomed(false);
-    setImagePosition({ x: 0, y: 0 });
-    imagePositionRef.current = { x: 0, y: 0 };
+    setView(FIT_VIEW);
+    setLattice(null);
+    setDropError(null);
   }, [gif]);
 
-  // Handle mouse events for dragging
-  const handleMouseDown = (e: React.MouseEvent) => {
-    e.preventDefault();
-    if (isZoomed) {
-      setIsDragging(true);
-      dragStartRef.current = {
-        x: e.clientX - imagePositionRef.current.x,
-        y: e.clientY - imagePositionRef.current.y
-      };
-    } else {
-      setIsZoomed(true);
-    }
-  };
-
+  // Wheel zoom around the cursor. Registered by hand because React's wheel listener is
+  // passive, and a trackpad pinch (ctrl+wheel) would zoom the whole page otherwise.
   useEffect(() => {
-    const updateImageTransform = (x: number, y: number) => {
-      if (imageRef.current) {
-        imageRef.current.style.transform = `scale(2) translate(${x / 2}px, ${y / 2}px)`;
-      }
+    const container = containerRef.current;
+    if (!isOpen || !container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      const frame = getFrame();
+      if (!frame) return;
+      e.preventDefault();
+
+      const pixels = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      const point = { x: e.clientX, y: e.clientY };
+      setView(current => zoomAround(current, current.zoom * Math.exp(-pixels * WHEEL_ZOOM_SPEED), point, frame));
     };
 
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!isDragging || !isZoomed) return;
-      
-      const newX = e.clientX - dragStartRef.current.x;
-      const newY = e.clientY - dragStartRef.current.y;
-      
-      imagePositionRef.current = { x: newX, y: newY };
-      updateImageTransform(newX, newY);
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [isOpen, gif]);
+
+  // Keep the image inside the window as it resizes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleResize = () => {
+      const frame = getFrame();
+      if (frame) setView(current => clampView(current, frame));
     };
 
-    const handleMouseUp = () => {
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [isOpen]);
+
+  // The cell lattice for the grid overlay, read from the image the first time it's shown.
+  // Images that aren't Life stills get a grid over their pixels.
+  useEffect(() => {
+    const media = getMedia();
+    if (!isGridVisible || lattice || !media || (loadedPath !== gif?.path && !isAnimated)) return;
+
+    try {
+      const { cellSize, offsetX, offsetY } = decodeImageElement(media);
+      setLattice({ cellSize, offsetX, offsetY });
+    } catch (error) {
+      console.warn('Could not find a cell lattice, showing pixels instead:', error);
+      setLattice(PIXEL_LATTICE);
+    }
+  }, [isGridVisible, lattice, loadedPath, isAnimated, gif]);
+
+  // Tap the image to zoom in, drag to pan it while zoomed, pinch to zoom around the
+  // fingers, and swipe between items while not zoomed
+  usePointerGestures(containerRef, {
+    onStart: () => {
+      if (isZoomed) setIsDragging(true);
+    },
+    onPan: (delta) => {
+      const frame = getFrame();
+      if (frame) setView(current => (current.zoom > 1 ? panView(current, delta, frame) : current));
+    },
+    onPinch: (scale, center) => {
+      const frame = getFrame();
+      if (frame) setView(current => zoomAround(current, current.zoom * scale, center, frame));
+    },
+    onTap: (point, e) => {
+      const frame = getFrame();
+      if (frame && !isZoomed && e.target === getMedia()) {
+        setView(current => zoomAround(current, TAP_ZOOM, point, frame));
+      }
+    },
+    onSwipe: (direction) => {
+      if (isZoomed) return;
+      if (direction === 'left') onNext?.();
+      if (direction === 'right') onPrevious?.();
+    },
+    onEnd: () => {
       setIsDragging(false);
-      // Update React state once when dragging stops
-      setImagePosition({ ...imagePositionRef.current });
-    };
+    }
+  }, { enabled: isOpen && gif !== null });
+
+  // Decode the frame currently on screen into a pattern
+  const decodeCurrentFrame = (): LifePattern | null => {
+    const media = getMedia();
+    if (!media || !gif) return null;
 
-    if (isDragging) {
-      document.addEventListener('mousemove', handleMouseMove, { passive: true });
-      document.addEventListener('mouseup', handleMouseUp);
+    try {
+      const grid = decodeImageElement(media);
+      return {
+        name: gif.name,
+        comments: [`Decoded from ${gif.path}`],
+        // Every still in the gallery came from a standard Life run unless the catalog says otherwise
+        rule: gif.rule ?? CONWAY_RULE,
+        grid
+      };
+    } catch (error) {
+      console.error('Failed to decode image into a cell grid:', error);
+      return null;
     }
+  };
 
-    return () => {
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mouseup', handleMouseUp);
-    };
-  }, [isDragging, isZoomed]);
+  const handleSimulate = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const pattern = decodeCurrentFrame();
+    if (pattern && onSimulate) {
+      onSimulate(pattern);
+    }
+  };
+
+  const handleExport = (e: React.MouseEvent, format: PatternFormat) => {
+    e.stopPropagation();
+    const pattern = decodeCurrentFrame();
+    if (pattern) {
+      downloadPattern({ ...pattern, grid: trimGrid(pattern.grid) }, format);
+    }
+  };
+
+  // Saves the frame on the canvas as it is - paused, stepped or mid-playback
+  const handleExportFrame = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const canvas = canvasRef.current;
+    if (!canvas || !gif) return;
+
+    canvas.toBlob(blob => {
+      if (!blob) {
+        console.error('Failed to encode the frame as PNG');
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      const fileName = gif.name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'frame';
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${fileName}-frame-${player.frame + 1}.png`;
+      link.click();
+
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }, 'image/png');
+  };
+
+  // Dropping a pattern file on the lightbox opens it straight in the simulation
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = getDroppedPatternFile(e);
+    if (!file || !onSimulate) return;
+
+    try {
+      onSimulate(await readPatternFile(file));
+      setDropError(null);
+    } catch (error) {
+      console.error('Failed to load pattern file:', error);
+      setDropError(describePatternFileError(file, error));
+    }
+  };
 
   if (!isOpen || !gif) return null;
 
+  // Only the details the catalog actually has for this item
+  const infoRows: [string, string][] = [
+    ['size', gif.width && gif.height ? `${gif.width} × ${gif.height}` : ''],
+    ['frames', gif.frameCount && gif.frameCount > 1 ? String(gif.frameCount) : ''],
+    ['generation', gif.generation !== undefined ? String(gif.generation) : ''],
+    ['generations', gif.generations !== undefined ? String(gif.generations) : ''],
+    ['rule', gif.rule ?? ''],
+    ['population', gif.population !== undefined ? gif.population.toLocaleString() : ''],
+    ['seed', gif.seed ?? ''],
+    ['created', gif.date ? new Date(gif.date).toLocaleDateString() : ''],
+    ['tags', gif.tags?.join(', ') ?? '']
+  ].filter((row): row is [string, string] => row[1] !== '');
+
+  // Where the magnified image is on screen, once it has loaded
+  const frame = loadedPath === gif.path || isAnimated ? getFrame() : null;
+  const scale = frame ? pixelScale(view, frame) : 1;
+  const rect = frame ? viewRect(view, frame) : null;
+  const gridLattice = lattice ?? PIXEL_LATTICE;
+  const isGridShown = isGridVisible && rect !== null && gridLattice.cellSize * scale >= MIN_GRID_CELL;
+
+  // The part of the image in the window, as fractions of it, for the minimap
+  const visible = frame && rect ? {
+    left: Math.max(0, -rect.left) / rect.width,
+    top: Math.max(0, -rect.top) / rect.height,
+    right: Math.min(rect.width, frame.viewport.width - rect.left) / rect.width,
+    bottom: Math.min(rect.height, frame.viewport.height - rect.top) / rect.height
+  } : null;
+
+  const mediaClassName = `lightbox-image ${isZoomed ? 'zoomed' : ''} ${isDragging ? 'dragging' : ''} ${scale >= PIXELATED_SCALE ? 'pixelated' : ''}`;
+  const mediaStyle: React.CSSProperties = {
+    cursor: isZoomed ? (isDragging ? 'grabbing' : 'grab') : 'zoom-in',
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+    willChange: isZoomed ? 'transform' : 'auto'
+  };
+
+  const handleMinimapClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const fraction = { x: (e.clientX - bounds.left) / bounds.width, y: (e.clientY - bounds.top) / bounds.height };
+    const target = getFrame();
+    if (target) setView(current => centerOn(current, fraction, target));
+  };
+
   return (
     <div 
       className="lightbox-overlay" 
-      onClick={isZoomed ? () => { 
-        setIsZoomed(false); 
-        setImagePosition({ x: 0, y: 0 }); 
-        imagePositionRef.current = { x: 0, y: 0 };
-      } : onClose}
+      onClick={isZoomed ? resetZoom : onClose}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleDrop}
     >
+      <div className="lightbox-actions" onClick={(e) => e.stopPropagation()}>
+        {onSimulate && (
+          <button className="lightbox-action" onClick={handleSimulate} title="Continue this pattern in the live simulation">
+            simulate from here
+          </button>
+        )}
+        <button className="lightbox-action" onClick={(e) => handleExport(e, 'rle')} title="Export this frame as RLE">
+          rle
+        </button>
+        <button className="lightbox-action" onClick={(e) => handleExport(e, 'life106')} title="Export this frame as Life 1.06 (.lif)">
+          lif
+        </button>
+        <button className="lightbox-action" onClick={(e) => handleExport(e, 'plaintext')} title="Export this frame as plaintext (.cells)">
+          cells
+        </button>
+        <button
+          className={`lightbox-action ${isGridVisible ? 'active' : ''}`}
+          onClick={() => setIsGridVisible(prev => !prev)}
+          title="Show the cell grid when zoomed in (G)"
+          aria-pressed={isGridVisible}
+        >
+          grid
+        </button>
+        {isZoomed && (
+          <button className="lightbox-action" onClick={resetZoom} title="Fit to screen (Esc)">
+            {scale < 10 ? scale.toFixed(1) : Math.round(scale)}x
+          </button>
+        )}
+        <button
+          className={`lightbox-action ${isInfoOpen ? 'active' : ''}`}
+          onClick={() => setIsInfoOpen(prev => !prev)}
+          title="Show details (I)"
+          aria-pressed={isInfoOpen}
+        >
+          info
+        </button>
+        <button
+          className={`lightbox-action ${isSlideshow ? 'active' : ''}`}
+          onClick={() => setIsSlideshow(prev => !prev)}
+          title="Move on to the next item by itself (S)"
+          aria-pressed={isSlideshow}
+        >
+          slideshow
+        </button>
+        {isSlideshow && (
+          <select
+            className="lightbox-select"
+            value={slideshowInterval}
+            onChange={(e) => setSlideshowInterval(e.target.value === 'track' ? 'track' : Number(e.target.value))}
+            title="Time on each item"
+          >
+            {SLIDESHOW_INTERVALS.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds}s</option>
+            ))}
+            <option value="track" disabled={!loopLength}>
+              {loopLength ? `track loop (${Math.round(loopLength)}s)` : 'track loop'}
+            </option>
+          </select>
+        )}
+      </div>
+      {dropError && (
+        <div className="lightbox-error" role="alert" onClick={(e) => { e.stopPropagation(); setDropError(null); }} title="Dismiss">
+          {dropError}
+        </div>
+      )}
+      {isInfoOpen && (
+        <aside className="lightbox-info" onClick={(e) => e.stopPropagation()} aria-label={`Details for ${gif.name}`}>
+          <h2 className="lightbox-info-title">{gif.name}</h2>
+          {gif.description && <p className="lightbox-info-description">{gif.description}</p>}
+          {infoRows.length > 0 && (
+            <dl className="lightbox-info-list">
+              {infoRows.map(([label, value]) => (
+                <React.Fragment key={label}>
+                  <dt>{label}</dt>
+                  <dd>{value}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          )}
+        </aside>
+      )}
       <div 
         ref={containerRef}
         className="lightbox-container" 
         onClick={(e) => e.stopPropagation()}
       >
         <div className="lightbox-content">
-          <img 
-            ref={imageRef}
-            src={gif.path} 
-            alt={gif.name}
-            className={`lightbox-image ${isZoomed ? 'zoomed' : ''} ${isDragging ? 'dragging' : ''}`}
-            onMouseDown={handleMouseDown}
-            style={{ 
-              cursor: isZoomed ? (isDragging ? 'grabbing' : 'grab') : 'zoom-in',
-              transform: isZoomed ? `scale(2) translate(${imagePosition.x / 2}px, ${imagePosition.y / 2}px)` : 'scale(1)',
-              willChange: isDragging ? 'transform' : 'auto'
-            }}
-          />
+          {isAnimated ? (
+            <canvas
+              ref={canvasRef}
+              width={player.width}
+              height={player.height}
+              className={mediaClassName}
+              style={mediaStyle}
+              aria-label={gif.name}
+            />
+          ) : (
+            <img 
+              ref={imageRef}
+              src={gif.path} 
+              alt={gif.name}
+              className={mediaClassName}
+              draggable={false}
+              onLoad={() => setLoadedPath(gif.path)}
+              style={mediaStyle}
+            />
+          )}
         </div>
       </div>
+      {isAnimated && (
+        <div className="lightbox-player" onClick={(e) => e.stopPropagation()}>
+          <button className="lightbox-action" onClick={() => player.step(-1)} title="Previous frame">
+            ◀|
+          </button>
+          <button className="lightbox-action" onClick={togglePlaying} title={player.isPlaying ? 'Pause (Space)' : 'Play (Space)'}>
+            {player.isPlaying ? '❚❚' : '▶'}
+          </button>
+          <button className="lightbox-action" onClick={() => player.step(1)} title="Next frame">
+            |▶
+          </button>
+          <input
+            type="range"
+            className="lightbox-scrubber"
+            min={0}
+            max={player.frameCount - 1}
+            value={player.frame}
+            onChange={(e) => player.seek(Number(e.target.value))}
+            aria-label="Frame"
+          />
+          <span className="lightbox-frame">{player.frame + 1}/{player.frameCount}</span>
+          <button
+            className="lightbox-action"
+            onClick={() => player.setSpeed(PLAYBACK_SPEEDS[(PLAYBACK_SPEEDS.indexOf(player.speed) + 1) % PLAYBACK_SPEEDS.length])}
+            title="Playback speed"
+          >
+            {player.speed}x
+          </button>
+          <button
+            className={`lightbox-action ${player.isReversed ? 'active' : ''}`}
+            onClick={player.toggleReversed}
+            title="Play backwards"
+            aria-pressed={player.isReversed}
+          >
+            ⇄
+          </button>
+          <button className="lightbox-action" onClick={handleExportFrame} title="Save this frame as PNG">
+            png
+          </button>
+        </div>
+      )}
+      {isGridShown && rect && (
+        <div
+          className="lightbox-grid"
+          style={{
+            left: rect.left,
+            top: rect.top,
+            width: rect.width,
+            height: rect.height,
+            backgroundSize: `${gridLattice.cellSize * scale}px ${gridLattice.cellSize * scale}px`,
+            backgroundPosition: `${gridLattice.offsetX * scale}px ${gridLattice.offsetY * scale}px`
+          }}
+        />
+      )}
+      {isZoomed && visible && (
+        <div className="lightbox-minimap" onClick={(e) => e.stopPropagation()}>
+          <div className="lightbox-minimap-image" onClick={handleMinimapClick} title="Jump to a spot">
+            <img src={gif.path} alt="" draggable={false} />
+            <div
+              className="lightbox-minimap-view"
+              style={{
+                left: `${visible.left * 100}%`,
+                top: `${visible.top * 100}%`,
+                width: `${(visible.right - visible.left) * 100}%`,
+                height: `${(visible.bottom - visible.top) * 100}%`
+              }}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
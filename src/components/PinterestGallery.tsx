@@ -1,10 +1,14 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useDisplayOrder } from '../navigation/NavigationContext';
+import { columnMajorOrder } from '../navigation/displayOrder';
 import { MediaItem } from '../types';
+import { createRandom, shuffle } from '../utils/random';
 import './PinterestGallery.css';
 
 interface PinterestGalleryProps {
   media: MediaItem[];
   onMediaClick: (mediaItem: MediaItem) => void;
+  seed: number; // same seed, same order
 }
 
 interface MediaWithHeight extends MediaItem {
@@ -12,7 +16,7 @@ interface MediaWithHeight extends MediaItem {
   loaded: boolean;
 }
 
-const PinterestGallery: React.FC<PinterestGalleryProps> = ({ media, onMediaClick }) => {
+const PinterestGallery: React.FC<PinterestGalleryProps> = ({ media, onMediaClick, seed }) => {
   const [mediaWithHeights, setMediaWithHeights] = useState<MediaWithHeight[]>([]);
   const [columns, setColumns] = useState(3);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -44,18 +48,9 @@ const PinterestGallery: React.FC<PinterestGalleryProps> = ({ media, onMediaClick
     });
   }, []);
 
-  const shuffleArray = useCallback(<T,>(array: T[]): T[] => {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  }, []);
-
   useEffect(() => {
     const loadAllMedia = async () => {
-      const shuffledMedia = shuffleArray(media);
+      const shuffledMedia = shuffle(media, createRandom(seed));
       const mediaPromises = shuffledMedia.map(async (item) => {
         const height = await loadMediaHeight(item);
         return {
@@ -70,7 +65,7 @@ const PinterestGallery: React.FC<PinterestGalleryProps> = ({ media, onMediaClick
     };
 
     loadAllMedia();
-  }, [media, loadMediaHeight, shuffleArray]);
+  }, [media, loadMediaHeight, seed]);
 
   useEffect(() => {
     calculateColumns();
@@ -83,6 +78,13 @@ const PinterestGallery: React.FC<PinterestGalleryProps> = ({ media, onMediaClick
     return () => window.removeEventListener('resize', handleResize);
   }, [calculateColumns]);
 
+  // The lightbox reads down each column in turn, as the items are laid out
+  const displayOrder = useMemo(
+    () => columnMajorOrder(mediaWithHeights.map(item => item.id), columns),
+    [mediaWithHeights, columns]
+  );
+  useDisplayOrder(displayOrder);
+
   const getColumnItems = (columnIndex: number) => {
     return mediaWithHeights.filter((_, index) => index % columns === columnIndex);
   };
@@ -108,7 +110,7 @@ const PinterestGallery: React.FC<PinterestGalleryProps> = ({ media, onMediaClick
                 <div className="pinterest-media-wrapper">
                   <img 
                     src={item.path} 
-                    alt=""
+                    alt={item.name}
                     className="pinterest-media"
                     loading="lazy"
                   />
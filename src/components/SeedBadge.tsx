@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { formatSeed, parseSeed } from '../utils/random';
+import './SeedBadge.css';
+
+interface SeedBadgeProps {
+  seed: number;
+  isPinned: boolean;
+  onSeedChange: (seed: number) => void;
+  onPinnedChange: (pinned: boolean) => void;
+  onReroll: () => void;
+}
+
+// Shows the seed behind the current shuffle. Pinning keeps it when R reloads the layout.
+const SeedBadge: React.FC<SeedBadgeProps> = ({ seed, isPinned, onSeedChange, onPinnedChange, onReroll }) => {
+  const [draft, setDraft] = useState(formatSeed(seed));
+
+  useEffect(() => {
+    setDraft(formatSeed(seed));
+  }, [seed]);
+
+  const commitDraft = () => {
+    const parsed = parseSeed(draft);
+    if (parsed === null || parsed === seed) {
+      setDraft(formatSeed(seed));
+      return;
+    }
+    // Typing a seed means you want that layout - keep it
+    onSeedChange(parsed);
+    onPinnedChange(true);
+  };
+
+  return (
+    <div className="seed-badge">
+      <span>seed</span>
+      <input
+        className="seed-input"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commitDraft}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+          if (e.key === 'Escape') {
+            setDraft(formatSeed(seed));
+            e.currentTarget.blur();
+          }
+        }}
+        spellCheck={false}
+        aria-label="Layout seed"
+      />
+      <button
+        className={`seed-btn ${isPinned ? 'active' : ''}`}
+        onClick={() => onPinnedChange(!isPinned)}
+        title={isPinned ? 'Unpin - R picks a new seed' : 'Pin - R keeps this seed'}
+        aria-pressed={isPinned}
+      >
+        {isPinned ? 'pinned' : 'pin'}
+      </button>
+      <button className="seed-btn" onClick={onReroll} title="New seed">
+        ↻
+      </button>
+    </div>
+  );
+};
+
+export default SeedBadge;
@@ -21,7 +21,7 @@ const StaticImageDisplay: React.FC<StaticImageDisplayProps> = ({ image, index, o
       <div className="gif-wrapper" onClick={onClick}>
         <img 
           src={image.path} 
-          alt=""
+          alt={image.name}
           className="gif-image"
           loading="lazy"
         />
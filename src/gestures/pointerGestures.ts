@@ -0,0 +1,196 @@
+// One gesture layer over Pointer Events, so mouse, pen and touch all drag, pan and zoom
+// the same way. Elements using it need `touch-action: none` or the browser scrolls instead.
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+export interface GestureEnd {
+  moved: boolean; // false for a tap
+  velocity: Point; // px per ms at release
+}
+
+export interface GestureHandlers {
+  // The first pointer went down. Return false to leave this gesture alone.
+  onStart?: (point: Point, event: PointerEvent) => boolean | void;
+  // One pointer dragging, or two moving together - the change since the last call.
+  // Also called while a flick coasts to a stop when inertia is on.
+  onPan?: (delta: Point, point: Point) => void;
+  // Two pointers spreading (> 1) or closing (< 1), relative to the last call
+  onPinch?: (scale: number, center: Point) => void;
+  onEnd?: (end: GestureEnd) => void;
+  onTap?: (point: Point, event: PointerEvent) => void;
+  onSwipe?: (direction: SwipeDirection) => void;
+}
+
+export interface GestureOptions {
+  inertia?: boolean;
+}
+
+const TAP_SLOP = 6; // px a pointer can wander and still count as a tap
+const SWIPE_DISTANCE = 60; // px
+const SWIPE_TIME = 500; // ms
+const VELOCITY_WINDOW = 100; // ms of movement used to measure a flick
+const INERTIA_FRICTION = 0.95; // speed kept per 60fps frame
+const INERTIA_MIN_SPEED = 0.02; // px per ms
+
+const centroid = (points: Point[]): Point => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+});
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// `getHandlers` is read on every event, so callers can swap handlers without re-attaching
+export const attachPointerGestures = (
+  element: HTMLElement,
+  getHandlers: () => GestureHandlers,
+  options: GestureOptions = {}
+) => {
+  const pointers = new Map<number, Point>();
+  let start: { point: Point; time: number } | null = null;
+  let last: Point | null = null; // centroid at the last move
+  let spread = 0; // pointer distance at the last move, while pinching
+  let moved = false;
+  let isMultiTouch = false; // a pinch or two-finger pan is never a tap or a swipe
+  let samples: { point: Point; time: number }[] = [];
+  let inertiaFrame: number | null = null;
+
+  const stopInertia = () => {
+    if (inertiaFrame !== null) {
+      cancelAnimationFrame(inertiaFrame);
+      inertiaFrame = null;
+    }
+  };
+
+  // Anchor the next move to where the pointers are now, so adding or lifting a finger doesn't jump
+  const rebase = () => {
+    const points = [...pointers.values()];
+    last = centroid(points);
+    spread = points.length >= 2 ? distance(points[0], points[1]) : 0;
+  };
+
+  const velocity = (): Point => {
+    const now = performance.now();
+    const recent = samples.filter(sample => now - sample.time <= VELOCITY_WINDOW);
+    if (recent.length < 2) return { x: 0, y: 0 };
+
+    const first = recent[0];
+    const final = recent[recent.length - 1];
+    const elapsed = Math.max(1, final.time - first.time);
+    return { x: (final.point.x - first.point.x) / elapsed, y: (final.point.y - first.point.y) / elapsed };
+  };
+
+  const coast = (initial: Point, from: Point) => {
+    let speed = initial;
+    let previous = performance.now();
+
+    const step = (now: number) => {
+      const elapsed = now - previous;
+      previous = now;
+      const decay = Math.pow(INERTIA_FRICTION, elapsed / (1000 / 60));
+      speed = { x: speed.x * decay, y: speed.y * decay };
+      if (Math.hypot(speed.x, speed.y) < INERTIA_MIN_SPEED) {
+        inertiaFrame = null;
+        return;
+      }
+      getHandlers().onPan?.({ x: speed.x * elapsed, y: speed.y * elapsed }, from);
+      inertiaFrame = requestAnimationFrame(step);
+    };
+
+    inertiaFrame = requestAnimationFrame(step);
+  };
+
+  const handlePointerDown = (e: PointerEvent) => {
+    const point = { x: e.clientX, y: e.clientY };
+
+    if (pointers.size === 0) {
+      stopInertia();
+      if (getHandlers().onStart?.(point, e) === false) return;
+      start = { point, time: performance.now() };
+      moved = false;
+      isMultiTouch = false;
+      samples = [];
+      document.addEventListener('pointermove', handlePointerMove);
+      document.addEventListener('pointerup', handlePointerUp);
+      document.addEventListener('pointercancel', handlePointerUp);
+    } else if (pointers.size >= 2) {
+      return; // a third finger is ignored
+    }
+
+    e.preventDefault();
+    pointers.set(e.pointerId, point);
+    if (pointers.size > 1) isMultiTouch = true;
+    rebase();
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (!pointers.has(e.pointerId) || !last || !start) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const points = [...pointers.values()];
+    const center = centroid(points);
+    if (!moved && distance(center, start.point) <= TAP_SLOP && points.length === 1) return;
+    moved = true;
+
+    const handlers = getHandlers();
+    handlers.onPan?.({ x: center.x - last.x, y: center.y - last.y }, center);
+    if (points.length >= 2) {
+      const nextSpread = distance(points[0], points[1]);
+      if (spread > 0 && nextSpread > 0) handlers.onPinch?.(nextSpread / spread, center);
+      spread = nextSpread;
+    }
+
+    last = center;
+    samples.push({ point: center, time: performance.now() });
+    if (samples.length > 20) samples.shift();
+  };
+
+  const handlePointerUp = (e: PointerEvent) => {
+    if (!pointers.has(e.pointerId)) return;
+    pointers.delete(e.pointerId);
+    if (pointers.size > 0) {
+      rebase();
+      samples = []; // the lifted finger's motion isn't a flick
+      return;
+    }
+
+    document.removeEventListener('pointermove', handlePointerMove);
+    document.removeEventListener('pointerup', handlePointerUp);
+    document.removeEventListener('pointercancel', handlePointerUp);
+
+    const handlers = getHandlers();
+    const point = { x: e.clientX, y: e.clientY };
+    const release = velocity();
+    if (!moved && !isMultiTouch && e.type === 'pointerup') {
+      handlers.onTap?.(point, e);
+    } else if (start && !isMultiTouch && e.type === 'pointerup' && performance.now() - start.time <= SWIPE_TIME) {
+      const dx = point.x - start.point.x;
+      const dy = point.y - start.point.y;
+      if (Math.abs(dx) >= SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy) * 2) {
+        handlers.onSwipe?.(dx < 0 ? 'left' : 'right');
+      } else if (Math.abs(dy) >= SWIPE_DISTANCE && Math.abs(dy) > Math.abs(dx) * 2) {
+        handlers.onSwipe?.(dy < 0 ? 'up' : 'down');
+      }
+    }
+    handlers.onEnd?.({ moved, velocity: release });
+
+    if (options.inertia && moved && Math.hypot(release.x, release.y) >= INERTIA_MIN_SPEED * 10) {
+      coast(release, point);
+    }
+    start = null;
+    last = null;
+  };
+
+  element.addEventListener('pointerdown', handlePointerDown);
+
+  return () => {
+    stopInertia();
+    element.removeEventListener('pointerdown', handlePointerDown);
+    document.removeEventListener('pointermove', handlePointerMove);
+    document.removeEventListener('pointerup', handlePointerUp);
+    document.removeEventListener('pointercancel', handlePointerUp);
+  };
+};
@@ -0,0 +1,25 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { attachPointerGestures, GestureHandlers, GestureOptions } from './pointerGestures';
+
+interface PointerGestureHookOptions extends GestureOptions {
+  // Attach only while true - for elements that aren't always rendered
+  enabled?: boolean;
+}
+
+// Attaches the gesture layer to `ref`. Handlers may change every render; the latest
+// ones are always used.
+export const usePointerGestures = (
+  ref: RefObject<HTMLElement>,
+  handlers: GestureHandlers,
+  options: PointerGestureHookOptions = {}
+) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const { inertia = false, enabled = true } = options;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !enabled) return;
+    return attachPointerGestures(element, () => handlersRef.current, { inertia });
+  }, [ref, inertia, enabled]);
+};
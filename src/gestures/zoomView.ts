@@ -0,0 +1,92 @@
+import { Point } from './pointerGestures';
+
+// Pan and zoom for one element laid out at its fit-to-screen size and magnified with
+// `translate(x, y) scale(zoom)` around its centre. zoom 1 is fit-to-screen.
+export interface ZoomView {
+  zoom: number;
+  x: number; // px the element's centre is moved by
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Where the element sits before any transform
+export interface ZoomFrame {
+  natural: Size; // image pixels
+  fitted: Size; // laid-out size on screen
+  center: Point; // laid-out centre on screen
+  viewport: Size;
+}
+
+export const FIT_VIEW: ZoomView = { zoom: 1, x: 0, y: 0 };
+export const MAX_PIXEL_SCALE = 32; // screen px per image px at full zoom
+
+// Zoom that shows each image pixel as MAX_PIXEL_SCALE screen pixels. Images that already
+// fit larger than that can't zoom at all.
+export const maxZoom = (frame: ZoomFrame) => {
+  if (frame.fitted.width <= 0) return 1;
+  return Math.max(1, (MAX_PIXEL_SCALE * frame.natural.width) / frame.fitted.width);
+};
+
+// Screen pixels per image pixel
+export const pixelScale = (view: ZoomView, frame: ZoomFrame) => {
+  if (frame.natural.width <= 0) return view.zoom;
+  return (view.zoom * frame.fitted.width) / frame.natural.width;
+};
+
+// Screen rectangle of the magnified element
+export const viewRect = (view: ZoomView, frame: ZoomFrame) => {
+  const width = frame.fitted.width * view.zoom;
+  const height = frame.fitted.height * view.zoom;
+  return {
+    left: frame.center.x + view.x - width / 2,
+    top: frame.center.y + view.y - height / 2,
+    width,
+    height
+  };
+};
+
+// Along one axis: centred while it fits the viewport, otherwise no gap at either edge
+const clampAxis = (offset: number, size: number, center: number, viewport: number) => {
+  if (size <= viewport) return viewport / 2 - center;
+  return Math.max(viewport - size / 2 - center, Math.min(size / 2 - center, offset));
+};
+
+export const clampView = (view: ZoomView, frame: ZoomFrame): ZoomView => {
+  const zoom = Math.max(1, Math.min(maxZoom(frame), view.zoom));
+  return {
+    zoom,
+    x: clampAxis(view.x, frame.fitted.width * zoom, frame.center.x, frame.viewport.width),
+    y: clampAxis(view.y, frame.fitted.height * zoom, frame.center.y, frame.viewport.height)
+  };
+};
+
+export const panView = (view: ZoomView, delta: Point, frame: ZoomFrame) => {
+  return clampView({ ...view, x: view.x + delta.x, y: view.y + delta.y }, frame);
+};
+
+// Zoom so the image point under `point` (screen coordinates) stays under it
+export const zoomAround = (view: ZoomView, zoom: number, point: Point, frame: ZoomFrame) => {
+  const next = Math.max(1, Math.min(maxZoom(frame), zoom));
+  const ratio = next / view.zoom;
+  const fromCenter = { x: point.x - frame.center.x, y: point.y - frame.center.y };
+  return clampView({
+    zoom: next,
+    x: fromCenter.x - (fromCenter.x - view.x) * ratio,
+    y: fromCenter.y - (fromCenter.y - view.y) * ratio
+  }, frame);
+};
+
+// Centre the view on a point given as a fraction of the image (0-1 on each axis)
+export const centerOn = (view: ZoomView, fraction: Point, frame: ZoomFrame) => {
+  const width = frame.fitted.width * view.zoom;
+  const height = frame.fitted.height * view.zoom;
+  return clampView({
+    ...view,
+    x: frame.viewport.width / 2 - frame.center.x - (fraction.x - 0.5) * width,
+    y: frame.viewport.height / 2 - frame.center.y - (fraction.y - 0.5) * height
+  }, frame);
+};
@@ -0,0 +1,133 @@
+import { CONWAY_RULE, LifeRule, nextState, parseRule } from './rules';
+
+// 'infinite' is an unbounded plane, served by the HashLife engine
+export type EdgeMode = 'wrap' | 'bounded' | 'infinite';
+
+// Plain row-major cell states, used to move patterns between engines, decoders and files
+export interface CellGrid {
+  width: number;
+  height: number;
+  cells: Uint8Array;
+}
+
+// Common stepping interface shared by every simulation backend
+export interface LifeEngine {
+  readonly width: number;
+  readonly height: number;
+  readonly generation: number;
+  edges: EdgeMode;
+  rule: LifeRule;
+  step: (generations?: number) => void;
+  jump: (log2: number) => void; // advance 2^log2 generations at once
+  resize: (width: number, height: number) => void; // keeps the generation and the cells that still fit
+  getCell: (x: number, y: number) => number;
+  setCell: (x: number, y: number, state: number) => void;
+  population: () => number;
+  snapshot: () => Uint8Array;
+  clear: () => void;
+  randomize: (density: number) => void;
+}
+
+// Dense array stepper - fine for viewport-sized grids with wrapped or bounded edges
+export const createArrayEngine = (
+  initialWidth: number,
+  initialHeight: number,
+  edges: EdgeMode = 'wrap',
+  rule: LifeRule = parseRule(CONWAY_RULE)
+): LifeEngine => {
+  let width = initialWidth;
+  let height = initialHeight;
+  let cells = new Uint8Array(width * height);
+  let next = new Uint8Array(width * height);
+  let generation = 0;
+
+  const index = (x: number, y: number) => y * width + x;
+
+  const countNeighbours = (x: number, y: number, wrap: boolean) => {
+    let count = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue;
+
+        let nx = x + dx;
+        let ny = y + dy;
+
+        if (wrap) {
+          nx = (nx + width) % width;
+          ny = (ny + height) % height;
+        } else if (nx < 0 || ny < 0 || nx >= width || ny >= height) {
+          continue;
+        }
+
+        if (cells[index(nx, ny)] === 1) count++;
+      }
+    }
+    return count;
+  };
+
+  const engine: LifeEngine = {
+    get width() {
+      return width;
+    },
+    get height() {
+      return height;
+    },
+    edges,
+    rule,
+    get generation() {
+      return generation;
+    },
+    step: (generations = 1) => {
+      const wrap = engine.edges === 'wrap';
+
+      for (let g = 0; g < generations; g++) {
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            next[index(x, y)] = nextState(engine.rule, cells[index(x, y)], countNeighbours(x, y, wrap));
+          }
+        }
+        [cells, next] = [next, cells];
+        generation++;
+      }
+    },
+    jump: (log2) => {
+      engine.step(2 ** log2);
+    },
+    // Anchored at the top-left, like the viewport
+    resize: (nextWidth, nextHeight) => {
+      const resized = new Uint8Array(nextWidth * nextHeight);
+      for (let y = 0; y < Math.min(height, nextHeight); y++) {
+        resized.set(cells.subarray(y * width, y * width + Math.min(width, nextWidth)), y * nextWidth);
+      }
+      width = nextWidth;
+      height = nextHeight;
+      cells = resized;
+      next = new Uint8Array(width * height);
+    },
+    getCell: (x, y) => cells[index(x, y)],
+    setCell: (x, y, state) => {
+      if (x < 0 || y < 0 || x >= width || y >= height) return;
+      cells[index(x, y)] = state;
+    },
+    population: () => {
+      let count = 0;
+      for (let i = 0; i < cells.length; i++) {
+        if (cells[i] === 1) count++;
+      }
+      return count;
+    },
+    snapshot: () => cells.slice(),
+    clear: () => {
+      cells.fill(0);
+      generation = 0;
+    },
+    randomize: (density) => {
+      for (let i = 0; i < cells.length; i++) {
+        cells[i] = Math.random() < density ? 1 : 0;
+      }
+      generation = 0;
+    }
+  };
+
+  return engine;
+};
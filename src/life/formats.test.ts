@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { CellGrid } from './engine';
+import { parseLife106, parsePattern, parsePlaintext, parseRle, serializeLife106, serializePlaintext, serializeRle } from './formats';
+
+// '.' dead, 'O' live, one string per row
+const gridOf = (rows: string[]): CellGrid => {
+  const width = rows[0].length;
+  const cells = new Uint8Array(width * rows.length);
+  rows.forEach((row, y) => {
+    for (let x = 0; x < width; x++) cells[y * width + x] = row[x] === 'O' ? 1 : 0;
+  });
+  return { width, height: rows.length, cells };
+};
+
+const roundTrip = (grid: CellGrid) => parseRle(serializeRle({ comments: [], grid })).grid;
+
+describe('serializeRle', () => {
+  it('ends each leading blank row with a single $', () => {
+    const grid = gridOf(['...', '...', '.O.', '..O', 'OOO']);
+    expect(serializeRle({ comments: [], grid })).toContain('2$bo$2bo$3o!');
+    expect(roundTrip(grid)).toEqual(grid);
+  });
+
+  it('keeps blank rows between live ones', () => {
+    const grid = gridOf(['O..', '...', '...', '..O']);
+    expect(roundTrip(grid)).toEqual(grid);
+  });
+});
+
+describe('live-only formats', () => {
+  // A Generations grid: 1 is live, higher states are dying
+  const grid = { width: 3, height: 1, cells: new Uint8Array([1, 2, 1]) };
+
+  it('leaves dying cells out of Life 1.06', () => {
+    expect(serializeLife106({ comments: [], grid })).toBe('#Life 1.06\n-1 0\n1 0\n');
+  });
+
+  it('writes dying cells as dead in plaintext', () => {
+    expect(serializePlaintext({ comments: [], grid })).toBe('O.O\n');
+  });
+});
+
+describe('parsing', () => {
+  it('reads a Life 1.06 file into a grid around its cells', () => {
+    const pattern = parseLife106('#Life 1.06\n#N Glider\n0 -1\n1 0\n-1 1\n0 1\n1 1\n');
+    expect(pattern.name).toBe('Glider');
+    expect(pattern.grid).toEqual(gridOf(['.O.', '..O', 'OOO']));
+  });
+
+  it('reads plaintext with its name and ragged rows', () => {
+    const pattern = parsePlaintext('!Name: Glider\n.O\n..O\nOOO\n');
+    expect(pattern.name).toBe('Glider');
+    expect(pattern.grid).toEqual(gridOf(['.O.', '..O', 'OOO']));
+  });
+
+  it('picks the format from the extension, then the contents', () => {
+    expect(parsePattern('x = 1, y = 1\no!').grid.cells).toEqual(new Uint8Array([1]));
+    expect(parsePattern('#Life 1.06\n0 0\n').grid.cells).toEqual(new Uint8Array([1]));
+    expect(parsePattern('O\n', 'single.cells').grid.cells).toEqual(new Uint8Array([1]));
+  });
+});
+
+describe('malformed input', () => {
+  it('rejects RLE without a header line', () => {
+    expect(() => parseRle('bo$2bo$3o!')).toThrow('missing its "x = ..., y = ..." header');
+  });
+
+  it('rejects unknown characters in an RLE body', () => {
+    expect(() => parseRle('x = 3, y = 1\n3z!')).toThrow('Unexpected character "z" in RLE body');
+  });
+
+  it('rejects Life 1.06 lines that are not coordinates', () => {
+    expect(() => parseLife106('#Life 1.06\n0 0\n1 one\n')).toThrow('Invalid Life 1.06 coordinate on line 3');
+  });
+
+  it('rejects plaintext cells other than . O and *', () => {
+    expect(() => parsePlaintext('.O.\n.#.\n')).toThrow('Unexpected character "#" in plaintext pattern');
+  });
+
+  it('reports an .rle file that turns out not to be RLE', () => {
+    expect(() => parsePattern('.O.\n..O\n', 'glider.rle')).toThrow('missing its "x = ..., y = ..." header');
+  });
+});
@@ -0,0 +1,405 @@
+import { CellGrid } from './engine';
+
+export type PatternFormat = 'rle' | 'life106' | 'plaintext';
+
+export interface LifePattern {
+  name?: string;
+  author?: string;
+  comments: string[];
+  rule?: string;
+  grid: CellGrid;
+}
+
+export const PATTERN_EXTENSIONS: Record<PatternFormat, string> = {
+  rle: 'rle',
+  life106: 'lif',
+  plaintext: 'cells'
+};
+
+const RLE_LINE_LENGTH = 70;
+
+// Bounding box of the live cells, or null for an empty grid
+export const gridBounds = (grid: CellGrid): { minX: number; minY: number; maxX: number; maxY: number } | null => {
+  let minX = grid.width;
+  let minY = grid.height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      if (grid.cells[y * grid.width + x]) {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  return maxX < 0 ? null : { minX, minY, maxX, maxY };
+};
+
+// Crops a grid to the bounding box of its live cells
+export const trimGrid = (grid: CellGrid): CellGrid => {
+  const bounds = gridBounds(grid);
+  if (!bounds) {
+    return { width: 0, height: 0, cells: new Uint8Array(0) };
+  }
+
+  const { minX, minY, maxX, maxY } = bounds;
+  const width = maxX - minX + 1;
+  const height = maxY - minY + 1;
+  const cells = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      cells[y * width + x] = grid.cells[(y + minY) * grid.width + x + minX];
+    }
+  }
+
+  return { width, height, cells };
+};
+
+type Coordinate = { x: number; y: number; state: number };
+
+// Loops rather than Math.min(...) - large patterns would overflow the argument stack
+const boundsOf = (coordinates: Coordinate[]) => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  coordinates.forEach(({ x, y }) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  return { minX, minY, maxX, maxY };
+};
+
+// Builds a grid from a list of coordinates, shifting them so the top-left is at 0,0
+const gridFromCoordinates = (coordinates: Coordinate[]): CellGrid => {
+  if (coordinates.length === 0) {
+    return { width: 0, height: 0, cells: new Uint8Array(0) };
+  }
+
+  const { minX, minY, maxX, maxY } = boundsOf(coordinates);
+  const width = maxX - minX + 1;
+  const height = maxY - minY + 1;
+  const cells = new Uint8Array(width * height);
+
+  coordinates.forEach(({ x, y, state }) => {
+    cells[(y - minY) * width + (x - minX)] = state;
+  });
+
+  return { width, height, cells };
+};
+
+// --- RLE -------------------------------------------------------------------
+
+// Multi-state RLE: '.' is dead, 'A'-'X' are states 1-24, and a 'p'-'y' prefix adds 24 per step
+const parseRleState = (tag: string, prefix: string | null): number => {
+  if (tag === 'b' || tag === '.') return 0;
+  if (tag === 'o') return 1;
+  const base = tag.charCodeAt(0) - 'A'.charCodeAt(0) + 1;
+  const offset = prefix ? (prefix.charCodeAt(0) - 'p'.charCodeAt(0) + 1) * 24 : 0;
+  return base + offset;
+};
+
+const formatRleState = (state: number, multiState: boolean): string => {
+  if (!multiState) return state ? 'o' : 'b';
+  if (state === 0) return '.';
+  const prefixIndex = Math.floor((state - 1) / 24);
+  const letter = String.fromCharCode('A'.charCodeAt(0) + ((state - 1) % 24));
+  return prefixIndex > 0 ? String.fromCharCode('p'.charCodeAt(0) + prefixIndex - 1) + letter : letter;
+};
+
+export const parseRle = (text: string): LifePattern => {
+  const pattern: LifePattern = { comments: [], grid: { width: 0, height: 0, cells: new Uint8Array(0) } };
+  const lines = text.split(/\r?\n/);
+  let width = 0;
+  let height = 0;
+  let headerFound = false;
+  let body = '';
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#')) {
+      const tag = line.charAt(1);
+      const value = line.slice(2).trim();
+      switch (tag) {
+        case 'N': pattern.name = value; break;
+        case 'O': pattern.author = value; break;
+        case 'C':
+        case 'c': pattern.comments.push(value); break;
+        case 'r': pattern.rule = value; break;
+        default: break; // #P / #R offsets are irrelevant once the pattern is placed
+      }
+      continue;
+    }
+
+    if (!headerFound && /^x\s*=/.test(line)) {
+      headerFound = true;
+      const fields = line.split(',').map(field => field.split('=').map(part => part.trim()));
+      fields.forEach(([key, value]) => {
+        if (key === 'x') width = parseInt(value, 10);
+        if (key === 'y') height = parseInt(value, 10);
+        if (key === 'rule' && value) pattern.rule = value;
+      });
+      continue;
+    }
+
+    body += line;
+    if (line.includes('!')) break;
+  }
+
+  if (!headerFound) {
+    throw new Error('RLE pattern is missing its "x = ..., y = ..." header line');
+  }
+
+  const coordinates: Coordinate[] = [];
+  let x = 0;
+  let y = 0;
+  let count = '';
+  let prefix: string | null = null;
+
+  for (const char of body) {
+    if (char === '!') break;
+
+    if (char >= '0' && char <= '9') {
+      count += char;
+    } else if (char >= 'p' && char <= 'y') {
+      prefix = char;
+    } else if (char === '$') {
+      y += count ? parseInt(count, 10) : 1;
+      x = 0;
+      count = '';
+    } else if (char === 'b' || char === 'o' || char === '.' || (char >= 'A' && char <= 'X')) {
+      const run = count ? parseInt(count, 10) : 1;
+      const state = parseRleState(char, prefix);
+      if (state) {
+        for (let i = 0; i < run; i++) coordinates.push({ x: x + i, y, state });
+      }
+      x += run;
+      count = '';
+      prefix = null;
+    } else if (!/\s/.test(char)) {
+      throw new Error(`Unexpected character "${char}" in RLE body`);
+    }
+  }
+
+  // RLE coordinates are already relative to the top-left of the declared bounding box,
+  // so keep it - leading blank rows/columns then survive a round trip
+  const bounds = boundsOf(coordinates);
+  const fullWidth = Math.max(width, coordinates.length ? bounds.maxX + 1 : 0);
+  const fullHeight = Math.max(height, coordinates.length ? bounds.maxY + 1 : 0);
+  const cells = new Uint8Array(fullWidth * fullHeight);
+  coordinates.forEach(c => {
+    cells[c.y * fullWidth + c.x] = c.state;
+  });
+
+  pattern.grid = { width: fullWidth, height: fullHeight, cells };
+  return pattern;
+};
+
+export const serializeRle = (pattern: LifePattern): string => {
+  const { grid } = pattern;
+  const multiState = grid.cells.some(state => state > 1);
+  const lines: string[] = [];
+
+  if (pattern.name) lines.push(`#N ${pattern.name}`);
+  if (pattern.author) lines.push(`#O ${pattern.author}`);
+  pattern.comments.forEach(comment => lines.push(`#C ${comment}`));
+  lines.push(`x = ${grid.width}, y = ${grid.height}, rule = ${pattern.rule ?? 'B3/S23'}`);
+
+  const runs: string[] = [];
+  let pendingRows = 0; // blank rows since the last row written
+  let hasRows = false;
+
+  const pushRun = (count: number, tag: string) => {
+    runs.push(count > 1 ? `${count}${tag}` : tag);
+  };
+
+  for (let y = 0; y < grid.height; y++) {
+    const row = grid.cells.subarray(y * grid.width, (y + 1) * grid.width);
+    let end = row.length;
+    while (end > 0 && row[end - 1] === 0) end--;
+
+    if (end === 0) {
+      pendingRows++;
+      continue;
+    }
+
+    // Each $ ends a row, so leading blank rows need one apiece and later ones one more
+    // for the row before them
+    if (hasRows) {
+      pushRun(pendingRows + 1, '$');
+    } else if (pendingRows > 0) {
+      pushRun(pendingRows, '$');
+    }
+    pendingRows = 0;
+    hasRows = true;
+
+    let x = 0;
+    while (x < end) {
+      const state = row[x];
+      let run = 1;
+      while (x + run < end && row[x + run] === state) run++;
+      pushRun(run, formatRleState(state, multiState));
+      x += run;
+    }
+  }
+  runs.push('!');
+
+  // Wrap the body without splitting a run token
+  let current = '';
+  runs.forEach(token => {
+    if (current.length + token.length > RLE_LINE_LENGTH) {
+      lines.push(current);
+      current = '';
+    }
+    current += token;
+  });
+  lines.push(current);
+
+  return lines.join('\n') + '\n';
+};
+
+// --- Life 1.06 --------------------------------------------------------------
+
+export const parseLife106 = (text: string): LifePattern => {
+  const pattern: LifePattern = { comments: [], grid: { width: 0, height: 0, cells: new Uint8Array(0) } };
+  const coordinates: Coordinate[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, lineNumber) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('#')) {
+      if (/^#Life\s+1\.06/i.test(line)) return;
+      if (line.startsWith('#N')) pattern.name = line.slice(2).trim();
+      else if (line.startsWith('#O')) pattern.author = line.slice(2).trim();
+      else if (line.startsWith('#R')) pattern.rule = line.slice(2).trim();
+      else pattern.comments.push(line.replace(/^#[A-Za-z]?\s?/, ''));
+      return;
+    }
+
+    const [x, y] = line.split(/\s+/).map(value => parseInt(value, 10));
+    if (Number.isNaN(x) || Number.isNaN(y)) {
+      throw new Error(`Invalid Life 1.06 coordinate on line ${lineNumber + 1}: "${line}"`);
+    }
+    coordinates.push({ x, y, state: 1 });
+  });
+
+  pattern.grid = gridFromCoordinates(coordinates);
+  return pattern;
+};
+
+export const serializeLife106 = (pattern: LifePattern): string => {
+  const { grid } = pattern;
+  const lines = ['#Life 1.06'];
+  // Centre the coordinates on the origin, as most Life 1.06 files do
+  const originX = Math.floor(grid.width / 2);
+  const originY = Math.floor(grid.height / 2);
+
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      // Only live cells - Generations rules leave dying states behind that these formats can't hold
+      if (grid.cells[y * grid.width + x] === 1) {
+        lines.push(`${x - originX} ${y - originY}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+// --- Plaintext (.cells) -----------------------------------------------------
+
+export const parsePlaintext = (text: string): LifePattern => {
+  const pattern: LifePattern = { comments: [], grid: { width: 0, height: 0, cells: new Uint8Array(0) } };
+  const rows: string[] = [];
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/\s+$/, '');
+    if (line.startsWith('!')) {
+      const comment = line.slice(1).trim();
+      if (/^Name:/i.test(comment)) pattern.name = comment.replace(/^Name:/i, '').trim();
+      else if (/^Author:/i.test(comment)) pattern.author = comment.replace(/^Author:/i, '').trim();
+      else if (comment) pattern.comments.push(comment);
+      return;
+    }
+    rows.push(line);
+  });
+
+  // Drop trailing blank lines; leading/inner blank lines are empty rows
+  while (rows.length && !rows[rows.length - 1]) rows.pop();
+
+  let width = 0;
+  rows.forEach(row => {
+    width = Math.max(width, row.length);
+  });
+  const cells = new Uint8Array(width * rows.length);
+  rows.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      const char = row[x];
+      if (char === 'O' || char === '*') {
+        cells[y * width + x] = 1;
+      } else if (char !== '.') {
+        throw new Error(`Unexpected character "${char}" in plaintext pattern`);
+      }
+    }
+  });
+
+  pattern.grid = { width, height: rows.length, cells };
+  return pattern;
+};
+
+export const serializePlaintext = (pattern: LifePattern): string => {
+  const { grid } = pattern;
+  const lines: string[] = [];
+
+  if (pattern.name) lines.push(`!Name: ${pattern.name}`);
+  if (pattern.author) lines.push(`!Author: ${pattern.author}`);
+  pattern.comments.forEach(comment => lines.push(`!${comment}`));
+
+  for (let y = 0; y < grid.height; y++) {
+    let row = '';
+    for (let x = 0; x < grid.width; x++) {
+      row += grid.cells[y * grid.width + x] === 1 ? 'O' : '.';
+    }
+    lines.push(row.replace(/\.+$/, ''));
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+// --- Dispatch ---------------------------------------------------------------
+
+export const detectFormat = (text: string, fileName?: string): PatternFormat => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'rle') return 'rle';
+  if (extension === 'lif' || extension === 'life') return 'life106';
+  if (extension === 'cells') return 'plaintext';
+
+  if (/^#Life\s+1\.06/im.test(text)) return 'life106';
+  if (/^\s*x\s*=/m.test(text)) return 'rle';
+  return 'plaintext';
+};
+
+export const parsePattern = (text: string, fileName?: string): LifePattern => {
+  switch (detectFormat(text, fileName)) {
+    case 'rle': return parseRle(text);
+    case 'life106': return parseLife106(text);
+    case 'plaintext': return parsePlaintext(text);
+  }
+};
+
+export const serializePattern = (pattern: LifePattern, format: PatternFormat): string => {
+  switch (format) {
+    case 'rle': return serializeRle(pattern);
+    case 'life106': return serializeLife106(pattern);
+    case 'plaintext': return serializePlaintext(pattern);
+  }
+};
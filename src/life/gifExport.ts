@@ -0,0 +1,112 @@
+import { CellGrid, EdgeMode } from './engine';
+import { LifeRule } from './rules';
+import { buildColourRamp, CellPalette } from './palette';
+import { createSimulationClient, SimulationClient } from './simulationClient';
+import { encodeGif, GifFrame } from '../media/gifEncoder';
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface GifExportOptions {
+  skip: number;       // generations to advance before the first frame
+  frameCount: number;
+  delay: number;      // milliseconds per frame
+  cellSize: number;   // pixels per cell
+  palette: CellPalette;
+  crop: CropRect;
+}
+
+// Browsers struggle well before the GIF format's own 65535px limit
+export const MAX_GIF_DIMENSION = 4096;
+
+// Resolves once the worker has answered everything we've asked of it
+const waitForFrame = (client: SimulationClient): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    client.onError(message => reject(new Error(message)));
+    client.onFrame(() => {
+      if (client.pending === 0) resolve();
+    });
+  });
+};
+
+const renderFrame = (grid: CellGrid, options: GifExportOptions): Uint8Array => {
+  const { crop, cellSize } = options;
+  const width = crop.width * cellSize;
+  const indices = new Uint8Array(width * crop.height * cellSize);
+
+  for (let cy = 0; cy < crop.height; cy++) {
+    for (let cx = 0; cx < crop.width; cx++) {
+      const x = crop.x + cx;
+      const y = crop.y + cy;
+      const state = x >= 0 && y >= 0 && x < grid.width && y < grid.height ? grid.cells[y * grid.width + x] : 0;
+      if (!state) continue;
+
+      for (let py = 0; py < cellSize; py++) {
+        indices.fill(state, (cy * cellSize + py) * width + cx * cellSize, (cy * cellSize + py) * width + (cx + 1) * cellSize);
+      }
+    }
+  }
+
+  return indices;
+};
+
+// Replays the simulation from the given state in its own worker and encodes the frames
+export const recordSimulationGif = async (
+  grid: CellGrid,
+  edges: EdgeMode,
+  rule: LifeRule,
+  options: GifExportOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const width = options.crop.width * options.cellSize;
+  const height = options.crop.height * options.cellSize;
+  if (width <= 0 || height <= 0) {
+    throw new Error('The crop area is empty');
+  }
+  if (width > MAX_GIF_DIMENSION || height > MAX_GIF_DIMENSION) {
+    throw new Error(`GIF would be ${width}x${height}px - reduce the crop or cell size (max ${MAX_GIF_DIMENSION}px)`);
+  }
+
+  const client = createSimulationClient(grid, edges, rule);
+  const frames: GifFrame[] = [];
+
+  try {
+    await waitForFrame(client);
+
+    if (options.skip > 0) {
+      const skipped = waitForFrame(client);
+      client.step(options.skip);
+      await skipped;
+    }
+
+    for (let i = 0; i < options.frameCount; i++) {
+      frames.push({
+        indices: renderFrame({ width: client.width, height: client.height, cells: client.snapshot() }, options),
+        delay: options.delay
+      });
+      onProgress?.(i + 1, options.frameCount);
+
+      if (i < options.frameCount - 1) {
+        const stepped = waitForFrame(client);
+        client.step(1);
+        await stepped;
+      }
+    }
+  } finally {
+    client.dispose();
+  }
+
+  // Yield once so the progress display can catch up before the encode
+  await new Promise(resolve => setTimeout(resolve, 0));
+
+  const bytes = encodeGif(frames, {
+    width,
+    height,
+    palette: buildColourRamp(rule.states, options.palette)
+  });
+  return new Blob([bytes.buffer as ArrayBuffer], { type: 'image/gif' });
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { createArrayEngine, LifeEngine } from './engine';
+import { createHashLifeEngine, HashLifeLimits } from './hashlife';
+
+const GLIDER = ['.O.', '..O', 'OOO'];
+const R_PENTOMINO = ['.OO', 'OO.', '.O.'];
+const BLINKER = ['OOO'];
+const TOAD = ['.OOO', 'OOO.'];
+const PULSAR = [
+  '..OOO...OOO..',
+  '.............',
+  'O....O.O....O',
+  'O....O.O....O',
+  'O....O.O....O',
+  '..OOO...OOO..',
+  '.............',
+  '..OOO...OOO..',
+  'O....O.O....O',
+  'O....O.O....O',
+  'O....O.O....O',
+  '.............',
+  '..OOO...OOO..'
+];
+
+const place = (engine: LifeEngine, rows: string[], left: number, top: number) => {
+  rows.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      if (row[x] === 'O') engine.setCell(left + x, top + y, 1);
+    }
+  });
+};
+
+// The same patterns on HashLife and on a bounded dense grid big enough that nothing
+// reaches its edges in the generations tested
+const setUp = (size: number, patterns: [string[], number, number][], limits?: HashLifeLimits) => {
+  const hashLife = createHashLifeEngine(size, size, undefined, limits);
+  const dense = createArrayEngine(size, size, 'bounded');
+  patterns.forEach(([rows, left, top]) => {
+    place(hashLife, rows, left, top);
+    place(dense, rows, left, top);
+  });
+  return { hashLife, dense };
+};
+
+describe('createHashLifeEngine', () => {
+  it('moves a glider like the dense engine, one step at a time and in one jump', () => {
+    const stepped = setUp(48, [[GLIDER, 4, 4]]);
+    const jumped = setUp(48, [[GLIDER, 4, 4]]);
+
+    for (let i = 0; i < 64; i++) stepped.hashLife.step();
+    jumped.hashLife.jump(6);
+    stepped.dense.step(64);
+
+    expect(stepped.hashLife.snapshot()).toEqual(stepped.dense.snapshot());
+    expect(jumped.hashLife.snapshot()).toEqual(stepped.dense.snapshot());
+    expect(jumped.hashLife.generation).toBe(64);
+  });
+
+  it('follows the R-pentomino for an uneven number of generations', () => {
+    const { hashLife, dense } = setUp(160, [[R_PENTOMINO, 79, 79]]);
+
+    hashLife.step(100);
+    dense.step(100);
+
+    expect(hashLife.snapshot()).toEqual(dense.snapshot());
+    expect(hashLife.population()).toBe(dense.population());
+    expect(hashLife.generation).toBe(100);
+  });
+
+  it('keeps oscillators in phase', () => {
+    const { hashLife, dense } = setUp(48, [[BLINKER, 2, 2], [TOAD, 10, 2], [PULSAR, 20, 20]]);
+    const start = hashLife.snapshot();
+
+    hashLife.step(3);
+    dense.step(3);
+    expect(hashLife.snapshot()).toEqual(dense.snapshot());
+
+    hashLife.jump(3);
+    hashLife.step(1);
+    dense.step(9);
+    expect(hashLife.snapshot()).toEqual(dense.snapshot());
+    // Generation 12 is a multiple of every period here: 2 for the blinker and toad, 3 for the pulsar
+    expect(hashLife.snapshot()).toEqual(start);
+    hashLife.step(1);
+    expect(hashLife.snapshot()).not.toEqual(start);
+  });
+
+  it('gives the same result when a jump has to be split to stay under the node limit', () => {
+    // An R-pentomino jump of 256 generations needs well over 4000 nodes, so this limit
+    // forces the jump to be abandoned and redone in halves, several levels down
+    const split = setUp(200, [[R_PENTOMINO, 99, 99]], { maxNodes: 4_000, maxNodesInAdvance: 4_000 });
+    const whole = setUp(200, [[R_PENTOMINO, 99, 99]]);
+
+    split.hashLife.jump(8);
+    whole.hashLife.jump(8);
+    split.dense.step(256);
+
+    expect(split.hashLife.generation).toBe(256);
+    expect(split.hashLife.snapshot()).toEqual(whole.hashLife.snapshot());
+    expect(split.hashLife.snapshot()).toEqual(split.dense.snapshot());
+  });
+
+  it('leaves the pattern alone when even a single generation is over the limit', () => {
+    const { hashLife } = setUp(16, [[R_PENTOMINO, 6, 6]], { maxNodesInAdvance: 0 });
+    const before = hashLife.snapshot();
+
+    expect(() => hashLife.jump(4)).toThrow('Pattern is too large for HashLife');
+    expect(hashLife.generation).toBe(0);
+    expect(hashLife.snapshot()).toEqual(before);
+  });
+});
+
+describe('resize', () => {
+  it('keeps the generation and the cells that still fit on both engines', () => {
+    const { hashLife, dense } = setUp(32, [[GLIDER, 2, 2], [BLINKER, 24, 24]]);
+    hashLife.step(4);
+    dense.step(4);
+
+    hashLife.resize(16, 12);
+    dense.resize(16, 12);
+    expect(hashLife.generation).toBe(4);
+    expect(dense.generation).toBe(4);
+    expect(hashLife.snapshot()).toEqual(dense.snapshot());
+    expect(dense.population()).toBe(5); // the blinker was cut off
+
+    // HashLife's plane outlives its window, so the blinker comes back into view
+    hashLife.resize(32, 32);
+    expect(hashLife.population()).toBe(8);
+    expect(hashLife.getCell(25, 24)).toBe(1);
+  });
+});
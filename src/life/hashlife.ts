@@ -0,0 +1,363 @@
+import { CONWAY_RULE, LifeRule, parseRule } from './rules';
+import { LifeEngine } from './engine';
+
+// Quadtree node. Level 0 nodes are single cells; a level n node is 2^n cells wide.
+// Nodes are hash-consed, so identical regions anywhere in space or time share one node
+// and the memoised results below are reused across the whole simulation.
+interface QuadNode {
+  id: number;
+  level: number;
+  population: number;
+  nw: QuadNode | null;
+  ne: QuadNode | null;
+  sw: QuadNode | null;
+  se: QuadNode | null;
+  // results[k] is the centre after 2^k generations (k <= level - 2)
+  results: (QuadNode | undefined)[];
+}
+
+// Beyond this many canonical nodes the table is rebuilt from the live root only
+const MAX_NODES = 1_500_000;
+// The table can only be rebuilt between advances, so one big jump could otherwise grow it
+// without bound. An advance that gets this far is abandoned and redone in two halves.
+const MAX_NODES_IN_ADVANCE = 4_000_000;
+const NODE_LIMIT_REACHED = new Error('HashLife node limit reached');
+
+// Node limits, lowered in tests to exercise collection and splitting on small patterns
+export interface HashLifeLimits {
+  maxNodes?: number;
+  maxNodesInAdvance?: number;
+}
+
+export const isHashLifeCompatible = (rule: LifeRule): boolean => rule.states === 2 && !rule.birth[0];
+
+// HashLife engine over an unbounded plane. The LifeEngine window (width x height at the
+// origin) is only what snapshot() reports - the pattern itself is free to grow anywhere.
+export const createHashLifeEngine = (
+  initialWidth: number,
+  initialHeight: number,
+  rule: LifeRule = parseRule(CONWAY_RULE),
+  limits: HashLifeLimits = {}
+): LifeEngine => {
+  const { maxNodes = MAX_NODES, maxNodesInAdvance = MAX_NODES_IN_ADVANCE } = limits;
+  if (!isHashLifeCompatible(rule)) {
+    throw new Error('HashLife only supports two-state rules without B0');
+  }
+
+  let currentRule = rule;
+  let width = initialWidth;
+  let height = initialHeight;
+  let nextId = 0;
+  // Keyed by a numeric hash of the children's ids, with short collision chains
+  let table = new Map<number, QuadNode[]>();
+  let nodeCount = 0;
+  let generation = 0;
+
+  const leaf = (population: number): QuadNode => ({
+    id: nextId++, level: 0, population, nw: null, ne: null, sw: null, se: null, results: []
+  });
+  const deadCell = leaf(0);
+  const liveCell = leaf(1);
+
+  const join = (nw: QuadNode, ne: QuadNode, sw: QuadNode, se: QuadNode): QuadNode => {
+    const key = (Math.imul(nw.id, 0x9e3779b1) ^ Math.imul(ne.id, 0x85ebca6b) ^ Math.imul(sw.id, 0xc2b2ae35) ^ Math.imul(se.id, 0x27d4eb2f)) | 0;
+    let bucket = table.get(key);
+    if (bucket) {
+      for (const candidate of bucket) {
+        if (candidate.nw === nw && candidate.ne === ne && candidate.sw === sw && candidate.se === se) {
+          return candidate;
+        }
+      }
+    } else {
+      bucket = [];
+      table.set(key, bucket);
+    }
+
+    const node: QuadNode = {
+      id: nextId++,
+      level: nw.level + 1,
+      population: nw.population + ne.population + sw.population + se.population,
+      nw, ne, sw, se,
+      results: []
+    };
+    bucket.push(node);
+    nodeCount++;
+    return node;
+  };
+
+  const emptyCache: QuadNode[] = [deadCell];
+  const empty = (level: number): QuadNode => {
+    while (emptyCache.length <= level) {
+      const child = emptyCache[emptyCache.length - 1];
+      emptyCache.push(join(child, child, child, child));
+    }
+    return emptyCache[level];
+  };
+
+  let root = empty(3);
+
+  // Same node, one level up, with the original in the middle
+  const expand = (node: QuadNode): QuadNode => {
+    const border = empty(node.level - 1);
+    return join(
+      join(border, border, border, node.nw!),
+      join(border, border, node.ne!, border),
+      join(border, node.sw!, border, border),
+      join(node.se!, border, border, border)
+    );
+  };
+
+  const centre = (node: QuadNode): QuadNode => join(node.nw!.se!, node.ne!.sw!, node.sw!.ne!, node.se!.nw!);
+  const horizontalCentre = (w: QuadNode, e: QuadNode) => join(w.ne!, e.nw!, w.se!, e.sw!);
+  const verticalCentre = (n: QuadNode, s: QuadNode) => join(n.sw!, n.se!, s.nw!, s.ne!);
+
+  // Level 2 (4x4) base case - evolve the inner 2x2 by one generation directly
+  const baseResult = (node: QuadNode): QuadNode => {
+    const bits: number[] = [];
+    for (let y = 0; y < 4; y++) {
+      for (let x = 0; x < 4; x++) {
+        bits.push(cellAt(node, x, y));
+      }
+    }
+
+    const evolve = (x: number, y: number) => {
+      let neighbours = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx || dy) neighbours += bits[(y + dy) * 4 + x + dx];
+        }
+      }
+      const alive = bits[y * 4 + x] === 1;
+      return (alive ? currentRule.survival[neighbours] : currentRule.birth[neighbours]) ? liveCell : deadCell;
+    };
+
+    return join(evolve(1, 1), evolve(2, 1), evolve(1, 2), evolve(2, 2));
+  };
+
+  // Centre of a level n node advanced by 2^step generations (step <= n - 2)
+  const result = (node: QuadNode, step: number): QuadNode => {
+    const key = Math.min(step, node.level - 2);
+    const cached = node.results[key];
+    if (cached) return cached;
+    if (nodeCount > maxNodesInAdvance) throw NODE_LIMIT_REACHED;
+
+    let advanced: QuadNode;
+    if (node.population === 0) {
+      advanced = empty(node.level - 1);
+    } else if (node.level === 2) {
+      advanced = baseResult(node);
+    } else {
+      const nw = node.nw!;
+      const ne = node.ne!;
+      const sw = node.sw!;
+      const se = node.se!;
+
+      // Nine overlapping sub-squares one level down
+      const n00 = nw;
+      const n01 = horizontalCentre(nw, ne);
+      const n02 = ne;
+      const n10 = verticalCentre(nw, sw);
+      const n11 = centre(node);
+      const n12 = verticalCentre(ne, se);
+      const n20 = sw;
+      const n21 = horizontalCentre(sw, se);
+      const n22 = se;
+
+      // At full speed both halves advance; otherwise the first pass only re-centres
+      const fullSpeed = key === node.level - 2;
+      const first = fullSpeed ? (n: QuadNode) => result(n, step) : centre;
+
+      const r00 = first(n00);
+      const r01 = first(n01);
+      const r02 = first(n02);
+      const r10 = first(n10);
+      const r11 = first(n11);
+      const r12 = first(n12);
+      const r20 = first(n20);
+      const r21 = first(n21);
+      const r22 = first(n22);
+
+      advanced = join(
+        result(join(r00, r01, r10, r11), step),
+        result(join(r01, r02, r11, r12), step),
+        result(join(r10, r11, r20, r21), step),
+        result(join(r11, r12, r21, r22), step)
+      );
+    }
+
+    node.results[key] = advanced;
+    return advanced;
+  };
+
+  // Coordinates are relative to the node's top-left corner
+  function cellAt(node: QuadNode, x: number, y: number): number {
+    if (node.level === 0) return node.population;
+    if (node.population === 0) return 0;
+    const half = 1 << (node.level - 1);
+    if (y < half) {
+      return x < half ? cellAt(node.nw!, x, y) : cellAt(node.ne!, x - half, y);
+    }
+    return x < half ? cellAt(node.sw!, x, y - half) : cellAt(node.se!, x - half, y - half);
+  }
+
+  const withCell = (node: QuadNode, x: number, y: number, alive: boolean): QuadNode => {
+    if (node.level === 0) return alive ? liveCell : deadCell;
+    const half = 1 << (node.level - 1);
+    const { nw, ne, sw, se } = node;
+    if (y < half) {
+      return x < half
+        ? join(withCell(nw!, x, y, alive), ne!, sw!, se!)
+        : join(nw!, withCell(ne!, x - half, y, alive), sw!, se!);
+    }
+    return x < half
+      ? join(nw!, ne!, withCell(sw!, x, y - half, alive), se!)
+      : join(nw!, ne!, sw!, withCell(se!, x - half, y - half, alive));
+  };
+
+  // The root is centred on the origin: it spans [-2^(level-1), 2^(level-1)) on both axes
+  const rootHalf = () => 2 ** (root.level - 1);
+
+  const contains = (x: number, y: number) => {
+    const half = rootHalf();
+    return x >= -half && y >= -half && x < half && y < half;
+  };
+
+  // Drops every node the current root no longer references
+  const collectGarbage = () => {
+    const previous = table;
+    table = new Map();
+    nodeCount = 0;
+    emptyCache.length = 1;
+
+    const intern = (node: QuadNode, memo: Map<number, QuadNode>): QuadNode => {
+      if (node.level === 0) return node;
+      const existing = memo.get(node.id);
+      if (existing) return existing;
+      const copy = join(intern(node.nw!, memo), intern(node.ne!, memo), intern(node.sw!, memo), intern(node.se!, memo));
+      memo.set(node.id, copy);
+      return copy;
+    };
+
+    root = intern(root, new Map());
+    previous.clear();
+  };
+
+  const advance = (log2: number) => {
+    // Pad until the pattern sits in the inner quarter and the root is big enough for the step
+    while (root.level < log2 + 3 || centre(centre(root)).population !== root.population) {
+      root = expand(root);
+    }
+    try {
+      root = result(root, log2);
+    } catch (error) {
+      if (error !== NODE_LIMIT_REACHED) throw error;
+      // The root is untouched; collecting drops the half-built futures along with the table
+      collectGarbage();
+      if (log2 === 0) {
+        throw new Error('Pattern is too large for HashLife');
+      }
+      advance(log2 - 1);
+      advance(log2 - 1);
+      return;
+    }
+    generation += 2 ** log2;
+
+    if (nodeCount > maxNodes) {
+      collectGarbage();
+    }
+  };
+
+  // Recursively copies the window, skipping empty subtrees entirely
+  const fillWindow = (node: QuadNode, left: number, top: number, into: Uint8Array) => {
+    if (node.population === 0) return;
+    const size = 2 ** node.level;
+    if (left >= width || top >= height || left + size <= 0 || top + size <= 0) return;
+
+    if (node.level === 0) {
+      into[top * width + left] = 1;
+      return;
+    }
+
+    const half = size / 2;
+    fillWindow(node.nw!, left, top, into);
+    fillWindow(node.ne!, left + half, top, into);
+    fillWindow(node.sw!, left, top + half, into);
+    fillWindow(node.se!, left + half, top + half, into);
+  };
+
+  const engine: LifeEngine = {
+    get width() {
+      return width;
+    },
+    get height() {
+      return height;
+    },
+    edges: 'infinite',
+    get rule() {
+      return currentRule;
+    },
+    set rule(next: LifeRule) {
+      if (!isHashLifeCompatible(next)) {
+        throw new Error('HashLife only supports two-state rules without B0');
+      }
+      currentRule = next;
+      // Memoised futures are only valid for the rule that produced them
+      table.forEach(bucket => bucket.forEach(node => {
+        node.results = [];
+      }));
+    },
+    get generation() {
+      return generation;
+    },
+    step: (generations = 1) => {
+      // Advance by each power of two in the binary expansion
+      for (let bit = 0; 2 ** bit <= generations; bit++) {
+        if (Math.floor(generations / 2 ** bit) % 2 === 1) {
+          advance(bit);
+        }
+      }
+    },
+    jump: (log2) => {
+      advance(log2);
+    },
+    // Only the window changes - the plane, and everything outside the window, stays
+    resize: (nextWidth, nextHeight) => {
+      width = nextWidth;
+      height = nextHeight;
+    },
+    getCell: (x, y) => {
+      if (!contains(x, y)) return 0;
+      const half = rootHalf();
+      return cellAt(root, x + half, y + half);
+    },
+    setCell: (x, y, state) => {
+      while (!contains(x, y)) {
+        root = expand(root);
+      }
+      const half = rootHalf();
+      root = withCell(root, x + half, y + half, state === 1);
+    },
+    population: () => root.population,
+    snapshot: () => {
+      const cells = new Uint8Array(width * height);
+      const half = rootHalf();
+      fillWindow(root, -half, -half, cells);
+      return cells;
+    },
+    clear: () => {
+      root = empty(3);
+      generation = 0;
+    },
+    randomize: (density) => {
+      root = empty(3);
+      generation = 0;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          if (Math.random() < density) engine.setCell(x, y, 1);
+        }
+      }
+    }
+  };
+
+  return engine;
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { decodePixels } from './imageDecoder';
+
+// Renders rows of '.' and 'O' as white-on-black cells `cellSize` px square
+const render = (rows: string[], cellSize: number): ImageData => {
+  const width = rows[0].length * cellSize;
+  const height = rows.length * cellSize;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = rows[Math.floor(y / cellSize)][Math.floor(x / cellSize)] === 'O' ? 255 : 0;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data, colorSpace: 'srgb' };
+};
+
+describe('decodePixels', () => {
+  it('finds the cell size from both axes', () => {
+    const grid = decodePixels(render(['.O..', '..O.', 'OOO.', '....'], 8));
+    expect(grid.cellSize).toBe(8);
+    expect(Array.from(grid.cells)).toEqual([0, 1, 0, 0, 0, 0, 1, 0, 1, 1, 1, 0, 0, 0, 0, 0]);
+  });
+
+  it('takes the cell size from the other axis when one has no edges', () => {
+    const grid = decodePixels(render(['O.O..O.O'], 8));
+    expect(grid.cellSize).toBe(8);
+    expect(Array.from(grid.cells)).toEqual([1, 0, 1, 0, 0, 1, 0, 1]);
+  });
+});
@@ -0,0 +1,178 @@
+import { CellGrid } from './engine';
+
+export interface DecodedGrid extends CellGrid {
+  cellSize: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+const MAX_CELL_SIZE = 32;
+// Share of rising edges that must land on the candidate lattice for it to count
+const LATTICE_AGREEMENT = 0.85;
+// Share of bright pixels inside a cell for it to count as alive
+const CELL_FILL_THRESHOLD = 0.3;
+
+// Otsu's method - picks the luminance split that best separates cells from background
+const findThreshold = (luminance: Uint8Array): number => {
+  const histogram = new Array(256).fill(0);
+  luminance.forEach(value => histogram[value]++);
+
+  const total = luminance.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = 0;
+  let threshold = 127;
+
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i];
+    if (weightBackground === 0) continue;
+
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = i;
+    }
+  }
+
+  return threshold;
+};
+
+// Counts background -> cell transitions per column (axis 'x') or per row (axis 'y').
+// Only rising edges are used so the 1px gaps many renderers draw between cells don't
+// produce a second, conflicting lattice.
+const risingEdgeProfile = (mask: Uint8Array, width: number, height: number, axis: 'x' | 'y'): number[] => {
+  const length = axis === 'x' ? width : height;
+  const profile = new Array(length).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const position = axis === 'x' ? x : y;
+      if (position === 0) continue;
+
+      const current = mask[y * width + x];
+      const previous = axis === 'x' ? mask[y * width + x - 1] : mask[(y - 1) * width + x];
+      if (current && !previous) profile[position]++;
+    }
+  }
+
+  return profile;
+};
+
+// Finds the largest period whose lattice explains nearly all rising edges, or null
+// when there are no edges to go by
+const detectLattice = (profile: number[]): { size: number; offset: number } | null => {
+  const totalEdges = profile.reduce((acc, count) => acc + count, 0);
+  if (totalEdges === 0) return null;
+
+  const maxSize = Math.min(MAX_CELL_SIZE, Math.floor(profile.length / 2));
+
+  for (let size = maxSize; size > 1; size--) {
+    const buckets = new Array(size).fill(0);
+    profile.forEach((count, position) => {
+      buckets[position % size] += count;
+    });
+
+    let offset = 0;
+    for (let i = 1; i < size; i++) {
+      if (buckets[i] > buckets[offset]) offset = i;
+    }
+
+    if (buckets[offset] / totalEdges >= LATTICE_AGREEMENT) {
+      return { size, offset };
+    }
+  }
+
+  return { size: 1, offset: 0 };
+};
+
+// Thresholds raw pixels into cells, detecting cell size and grid offset automatically
+export const decodePixels = (image: ImageData): DecodedGrid => {
+  const { width, height, data } = image;
+  const luminance = new Uint8Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const a = data[i * 4 + 3] / 255;
+    luminance[i] = Math.round((0.299 * r + 0.587 * g + 0.114 * b) * a);
+  }
+
+  const threshold = findThreshold(luminance);
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = luminance[i] > threshold ? 1 : 0;
+  }
+
+  const xLattice = detectLattice(risingEdgeProfile(mask, width, height, 'x'));
+  const yLattice = detectLattice(risingEdgeProfile(mask, width, height, 'y'));
+
+  // Cells are square in every renderer we know of, so settle on one size. An axis without
+  // edges (one row of cells, say) says nothing about it, so the other axis decides.
+  const cellSize = xLattice && yLattice
+    ? Math.min(xLattice.size, yLattice.size)
+    : xLattice?.size ?? yLattice?.size ?? 1;
+  const offsetX = (xLattice?.offset ?? 0) % cellSize;
+  const offsetY = (yLattice?.offset ?? 0) % cellSize;
+
+  const columns = Math.floor((width - offsetX) / cellSize);
+  const rows = Math.floor((height - offsetY) / cellSize);
+  const cells = new Uint8Array(columns * rows);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let bright = 0;
+      for (let dy = 0; dy < cellSize; dy++) {
+        for (let dx = 0; dx < cellSize; dx++) {
+          const px = offsetX + column * cellSize + dx;
+          const py = offsetY + row * cellSize + dy;
+          bright += mask[py * width + px];
+        }
+      }
+      cells[row * columns + column] = bright / (cellSize * cellSize) >= CELL_FILL_THRESHOLD ? 1 : 0;
+    }
+  }
+
+  return { width: columns, height: rows, cells, cellSize, offsetX, offsetY };
+};
+
+// Reads whatever frame the element is currently showing - for GIFs that's the visible frame
+export const decodeImageElement = (image: HTMLImageElement | HTMLCanvasElement): DecodedGrid => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+  canvas.height = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  ctx.drawImage(image, 0, 0);
+  return decodePixels(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+export const loadImageGrid = (path: string): Promise<DecodedGrid> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        resolve(decodeImageElement(img));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    img.onerror = () => reject(new Error(`Failed to load image: ${path}`));
+    img.src = path;
+  });
+};
@@ -0,0 +1,41 @@
+export type RGB = [number, number, number];
+
+export interface CellPalette {
+  name: string;
+  background: RGB;
+  live: RGB;
+  dying: RGB; // Generations states drift from live through this into the background
+}
+
+export const PALETTES: Record<string, CellPalette> = {
+  moonchild: { name: 'moonchild', background: [0x0a, 0x16, 0x28], live: [0x06, 0xb6, 0xd4], dying: [0x6d, 0x28, 0xd9] },
+  mono: { name: 'mono', background: [0x00, 0x00, 0x00], live: [0xff, 0xff, 0xff], dying: [0x80, 0x80, 0x80] },
+  ember: { name: 'ember', background: [0x14, 0x08, 0x06], live: [0xff, 0xa6, 0x2b], dying: [0xc2, 0x1f, 0x3a] },
+  paper: { name: 'paper', background: [0xf4, 0xf1, 0xea], live: [0x1c, 0x2a, 0x3a], dying: [0x7a, 0x9c, 0xb8] }
+};
+
+export const DEFAULT_PALETTE = PALETTES.moonchild;
+export const BACKGROUND_COLOUR = DEFAULT_PALETTE.background;
+export const LIVE_COLOUR = DEFAULT_PALETTE.live;
+
+const mix = (from: RGB, to: RGB, amount: number): RGB => [
+  Math.round(from[0] + (to[0] - from[0]) * amount),
+  Math.round(from[1] + (to[1] - from[1]) * amount),
+  Math.round(from[2] + (to[2] - from[2]) * amount)
+];
+
+// One colour per cell state: index 0 is the background, 1 is alive, the rest decay
+export const buildColourRamp = (states: number, palette: CellPalette = DEFAULT_PALETTE): RGB[] => {
+  const ramp: RGB[] = [palette.background, palette.live];
+  const dyingStates = states - 2;
+
+  for (let i = 0; i < dyingStates; i++) {
+    const progress = dyingStates === 1 ? 0.5 : i / (dyingStates - 1);
+    // First half fades towards the dying colour, second half fades that into the background
+    ramp.push(progress < 0.5
+      ? mix(palette.live, palette.dying, 0.4 + progress * 1.2)
+      : mix(palette.dying, palette.background, (progress - 0.5) * 1.6));
+  }
+
+  return ramp;
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { LifePattern, PatternFormat, PATTERN_EXTENSIONS, parsePattern, serializePattern } from './formats';
+
+export const readPatternFile = async (file: File): Promise<LifePattern> => {
+  const text = await file.text();
+  const pattern = parsePattern(text, file.name);
+  if (!pattern.name) {
+    pattern.name = file.name.replace(/\.[^.]+$/, '');
+  }
+  return pattern;
+};
+
+// What the drop targets show when a file can't be read
+export const describePatternFileError = (file: File, error: unknown) => {
+  return `Could not read ${file.name}: ${error instanceof Error ? error.message : error}`;
+};
+
+// Returns the first file in a drop that looks like a pattern, ignoring images etc.
+export const getDroppedPatternFile = (e: React.DragEvent): File | null => {
+  const files = Array.from(e.dataTransfer.files);
+  return files.find(file => /\.(rle|lif|life|cells|txt)$/i.test(file.name)) ?? null;
+};
+
+export const downloadPattern = (pattern: LifePattern, format: PatternFormat) => {
+  const text = serializePattern(pattern, format);
+  const blob = new Blob([text], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const fileName = (pattern.name || 'pattern').replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'pattern';
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.${PATTERN_EXTENSIONS[format]}`;
+  link.click();
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { formatRule, isValidRule, KNOWN_RULES, nextState, parseRule } from './rules';
+
+const canonical = (text: string) => formatRule(parseRule(text));
+
+describe('parseRule and formatRule', () => {
+  it('round-trips every known rule unchanged', () => {
+    KNOWN_RULES.forEach(({ rule }) => expect(canonical(rule)).toBe(rule));
+  });
+
+  it('normalises B/S notation', () => {
+    expect(canonical('b36s23')).toBe('B36/S23');
+    expect(canonical(' B3 / S23 ')).toBe('B3/S23');
+    expect(canonical('B2/S')).toBe('B2/S');
+  });
+
+  it('reads the older S/B notation', () => {
+    expect(canonical('23/3')).toBe('B3/S23');
+    expect(canonical('S23/B36')).toBe('B36/S23');
+  });
+
+  it('reads Generations rules in either style', () => {
+    expect(canonical('B2/S/C3')).toBe('B2/S/C3');
+    expect(canonical('/2/3')).toBe('B2/S/C3');
+    expect(canonical('345/2/4')).toBe('B2/S345/C4');
+    expect(canonical('B13/S2/G21')).toBe('B13/S2/C21');
+  });
+
+  it('writes two-state rules without a /C suffix', () => {
+    expect(canonical('B3/S23/C2')).toBe('B3/S23');
+  });
+
+  it('keeps what it parses once formatted', () => {
+    ['B3/S23', 'B36/S23', 'B2/S345/C4'].forEach(rule => {
+      expect(parseRule(canonical(rule))).toEqual(parseRule(rule));
+    });
+  });
+});
+
+describe('rejected rules', () => {
+  it.each(['', 'Life', 'B9/S23', 'B3/S2x', 'B3/S23/C', 'B3/S23/C1', 'B3/S23/C257', 'B3/S23/C3/C4'])(
+    'rejects "%s"',
+    text => {
+      expect(isValidRule(text)).toBe(false);
+      expect(() => parseRule(text)).toThrow();
+    }
+  );
+});
+
+describe('nextState', () => {
+  it('ages dying Generations cells regardless of neighbours', () => {
+    const brain = parseRule('B2/S/C3');
+    expect(nextState(brain, 1, 2)).toBe(2);
+    expect(nextState(brain, 2, 2)).toBe(0);
+    expect(nextState(brain, 0, 2)).toBe(1);
+  });
+});
@@ -0,0 +1,88 @@
+export interface LifeRule {
+  birth: boolean[];    // indexed by live-neighbour count 0-8
+  survival: boolean[]; // indexed by live-neighbour count 0-8
+  states: number;      // 2 for Life-like rules, >2 for Generations rules
+}
+
+export const CONWAY_RULE = 'B3/S23';
+
+export const KNOWN_RULES: { name: string; rule: string }[] = [
+  { name: 'Conway\'s Life', rule: 'B3/S23' },
+  { name: 'HighLife', rule: 'B36/S23' },
+  { name: 'Seeds', rule: 'B2/S' },
+  { name: 'Day & Night', rule: 'B3678/S34678' },
+  { name: 'Life without Death', rule: 'B3/S012345678' },
+  { name: 'Brian\'s Brain', rule: 'B2/S/C3' },
+  { name: 'Star Wars', rule: 'B2/S345/C4' },
+  { name: 'Fireworks', rule: 'B13/S2/C21' }
+];
+
+const digitsToFlags = (digits: string): boolean[] => {
+  const flags = new Array(9).fill(false);
+  for (const digit of digits) {
+    flags[parseInt(digit, 10)] = true;
+  }
+  return flags;
+};
+
+const flagsToDigits = (flags: boolean[]): string => {
+  return flags.map((flag, count) => (flag ? String(count) : '')).join('');
+};
+
+// Accepts B/S notation ("B36/S23", "b3s23"), the older S/B notation ("23/3"),
+// and Generations rules in either style ("B2/S/C3", "/2/3", "345/2/4")
+export const parseRule = (text: string): LifeRule => {
+  const rule = text.trim().replace(/\s+/g, '');
+
+  const bsMatch = /^B([0-8]*)\/?S([0-8]*)(?:\/[CG]?(\d+))?$/i.exec(rule);
+  const sbMatch = bsMatch ? null : /^S?([0-8]*)\/B?([0-8]*)(?:\/[CG]?(\d+))?$/i.exec(rule);
+
+  if (!bsMatch && !sbMatch) {
+    throw new Error(`Unrecognised rulestring "${text}"`);
+  }
+
+  const [birth, survival, states] = bsMatch
+    ? [bsMatch[1], bsMatch[2], bsMatch[3]]
+    : [sbMatch![2], sbMatch![1], sbMatch![3]];
+
+  const stateCount = states ? parseInt(states, 10) : 2;
+  if (stateCount < 2 || stateCount > 256) {
+    throw new Error(`Generations rules need between 2 and 256 states, got ${stateCount}`);
+  }
+
+  return {
+    birth: digitsToFlags(birth),
+    survival: digitsToFlags(survival),
+    states: stateCount
+  };
+};
+
+// Canonical B/S form, with a /C suffix only for Generations rules
+export const formatRule = (rule: LifeRule): string => {
+  const base = `B${flagsToDigits(rule.birth)}/S${flagsToDigits(rule.survival)}`;
+  return rule.states > 2 ? `${base}/C${rule.states}` : base;
+};
+
+export const isValidRule = (text: string): boolean => {
+  try {
+    parseRule(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Next state of a single cell - only fully alive (state 1) cells count as neighbours
+export const nextState = (rule: LifeRule, state: number, liveNeighbours: number): number => {
+  if (state === 0) {
+    return rule.birth[liveNeighbours] ? 1 : 0;
+  }
+
+  if (state === 1) {
+    if (rule.survival[liveNeighbours]) return 1;
+    return rule.states > 2 ? 2 : 0;
+  }
+
+  // Dying cells of a Generations rule count down regardless of their neighbours
+  return state + 1 < rule.states ? state + 1 : 0;
+};
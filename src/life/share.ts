@@ -0,0 +1,78 @@
+import { EdgeMode } from './engine';
+import { LifePattern, parseRle, serializeRle } from './formats';
+import { getHashParams, writeHashParams } from '../navigation/hashRoute';
+
+// Everything needed to replay a simulation exactly: the rule, the edge behaviour,
+// the grid dimensions and where the pattern sits in that grid
+export interface SharedSimulation {
+  rule: string;
+  edges: EdgeMode;
+  width: number;
+  height: number;
+  offsetX: number;
+  offsetY: number;
+  pattern: LifePattern;
+}
+
+const SIMULATION_KEYS = ['rule', 'edges', 'size', 'at', 'rle'];
+
+const parseEdges = (value: string | null): EdgeMode => {
+  return value === 'bounded' || value === 'infinite' ? value : 'wrap';
+};
+
+// Only the rule, for links that should reuse whatever pattern the viewer starts with
+export const readSharedRule = (): string | null => getHashParams().get('rule');
+
+export const readSharedSimulation = (): SharedSimulation | null => {
+  const params = getHashParams();
+  const rle = params.get('rle');
+  const size = params.get('size')?.split('x').map(value => parseInt(value, 10));
+  if (!rle || !size || size.length !== 2 || size.some(Number.isNaN)) return null;
+
+  try {
+    const rule = params.get('rule') ?? undefined;
+    const [offsetX, offsetY] = (params.get('at') ?? '0,0').split(',').map(value => parseInt(value, 10) || 0);
+    const pattern = parseRle(`x = 0, y = 0${rule ? `, rule = ${rule}` : ''}\n${rle}`);
+
+    return {
+      rule: pattern.rule ?? 'B3/S23',
+      edges: parseEdges(params.get('edges')),
+      width: size[0],
+      height: size[1],
+      offsetX,
+      offsetY,
+      pattern
+    };
+  } catch (error) {
+    console.error('Ignoring malformed shared simulation in URL:', error);
+    return null;
+  }
+};
+
+export const writeSharedRule = (rule: string) => {
+  const params = getHashParams();
+  params.set('rule', rule);
+  writeHashParams(params);
+};
+
+export const writeSharedSimulation = (shared: SharedSimulation): string => {
+  const params = getHashParams();
+  // Only the RLE body - the header is rebuilt from the other parameters
+  const body = serializeRle(shared.pattern).split('\n').filter(line => line && !line.startsWith('#') && !/^x\s*=/.test(line)).join('');
+
+  params.set('rule', shared.rule);
+  params.set('edges', shared.edges);
+  params.set('size', `${shared.width}x${shared.height}`);
+  params.set('at', `${shared.offsetX},${shared.offsetY}`);
+  params.set('rle', body);
+  writeHashParams(params);
+
+  return window.location.href;
+};
+
+// The same parameters minus the simulation share, for routes outside the simulation view
+export const withoutSharedSimulation = (params: URLSearchParams): URLSearchParams => {
+  const rest = new URLSearchParams(params);
+  SIMULATION_KEYS.forEach(key => rest.delete(key));
+  return rest;
+};
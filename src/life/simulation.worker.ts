@@ -0,0 +1,98 @@
+import { createArrayEngine, EdgeMode, LifeEngine } from './engine';
+import { createHashLifeEngine } from './hashlife';
+import { formatRule, parseRule } from './rules';
+import type { SimulationRequest, SimulationResponse } from './simulationClient';
+
+const ctx = self as unknown as Worker;
+
+let engine: LifeEngine | null = null;
+let generationOffset = 0;
+
+// Wrapped and bounded grids use the array stepper, the unbounded plane uses HashLife
+const createEngine = (width: number, height: number, edges: EdgeMode, rule: string, cells: Uint8Array): LifeEngine => {
+  const parsedRule = parseRule(rule);
+  const next = edges === 'infinite'
+    ? createHashLifeEngine(width, height, parsedRule)
+    : createArrayEngine(width, height, edges, parsedRule);
+
+  for (let i = 0; i < cells.length; i++) {
+    if (cells[i]) next.setCell(i % width, Math.floor(i / width), cells[i]);
+  }
+  return next;
+};
+
+const postFrame = () => {
+  if (!engine) return;
+  const cells = engine.snapshot();
+  const response: SimulationResponse = {
+    type: 'frame',
+    width: engine.width,
+    height: engine.height,
+    cells,
+    generation: generationOffset + engine.generation,
+    population: engine.population()
+  };
+  ctx.postMessage(response, [cells.buffer]);
+};
+
+ctx.onmessage = (e: MessageEvent<SimulationRequest>) => {
+  const request = e.data;
+
+  try {
+    if (request.type === 'load') {
+      engine = createEngine(request.width, request.height, request.edges, request.rule, request.cells);
+      generationOffset = request.generation;
+      postFrame();
+      return;
+    }
+
+    if (!engine) {
+      throw new Error('Simulation worker received a command before any grid was loaded');
+    }
+
+    switch (request.type) {
+      case 'step':
+        engine.step(request.generations);
+        break;
+      case 'jump':
+        engine.jump(request.log2);
+        break;
+      case 'resize':
+        engine.resize(request.width, request.height);
+        break;
+      case 'setCell':
+        engine.setCell(request.x, request.y, request.state);
+        break;
+      case 'setEdges': {
+        if (request.edges !== 'infinite' && engine.edges !== 'infinite') {
+          engine.edges = request.edges;
+          break;
+        }
+        // Switching between the array and HashLife engines carries the visible window over
+        const previousGeneration = generationOffset + engine.generation;
+        engine = createEngine(engine.width, engine.height, request.edges, formatRule(engine.rule), engine.snapshot());
+        generationOffset = previousGeneration;
+        break;
+      }
+      case 'setRule':
+        engine.rule = parseRule(request.rule);
+        break;
+      case 'randomize':
+        engine.randomize(request.density);
+        generationOffset = 0;
+        break;
+      case 'clear':
+        engine.clear();
+        generationOffset = 0;
+        break;
+    }
+
+    postFrame();
+  } catch (error) {
+    const response: SimulationResponse = {
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error)
+    };
+    ctx.postMessage(response);
+  }
+};
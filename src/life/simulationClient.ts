@@ -0,0 +1,150 @@
+import { CellGrid, EdgeMode, LifeEngine } from './engine';
+import { formatRule, LifeRule } from './rules';
+
+// Messages understood by simulation.worker.ts
+export type SimulationRequest =
+  | { type: 'load'; width: number; height: number; cells: Uint8Array; edges: EdgeMode; rule: string; generation: number }
+  | { type: 'step'; generations: number }
+  | { type: 'jump'; log2: number }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'setCell'; x: number; y: number; state: number }
+  | { type: 'setEdges'; edges: EdgeMode }
+  | { type: 'setRule'; rule: string }
+  | { type: 'randomize'; density: number }
+  | { type: 'clear' };
+
+export type SimulationResponse =
+  | { type: 'frame'; width: number; height: number; cells: Uint8Array; generation: number; population: number }
+  | { type: 'error'; message: string };
+
+export interface SimulationClient extends LifeEngine {
+  readonly pending: number;
+  load: (grid: CellGrid, edges: EdgeMode, rule: LifeRule) => void;
+  onFrame: (callback: () => void) => void;
+  onError: (callback: (message: string) => void) => void;
+  dispose: () => void;
+}
+
+// Main-thread proxy for an engine running in a Web Worker. It mirrors the last frame
+// the worker sent, so reads stay synchronous while stepping never blocks the UI or audio.
+export const createSimulationClient = (grid: CellGrid, edges: EdgeMode, rule: LifeRule): SimulationClient => {
+  const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+
+  let width = grid.width;
+  let height = grid.height;
+  let cells: Uint8Array = grid.cells.slice();
+  let generation = 0;
+  let population = 0;
+  let currentEdges = edges;
+  let currentRule = rule;
+  let pending = 0;
+  let frameCallback: (() => void) | null = null;
+  let errorCallback: ((message: string) => void) | null = null;
+
+  const post = (request: SimulationRequest, transfer: Transferable[] = []) => {
+    pending++;
+    worker.postMessage(request, transfer);
+  };
+
+  worker.onmessage = (e: MessageEvent<SimulationResponse>) => {
+    pending = Math.max(0, pending - 1);
+    const message = e.data;
+
+    if (message.type === 'error') {
+      console.error('Simulation worker error:', message.message);
+      errorCallback?.(message.message);
+      return;
+    }
+
+    width = message.width;
+    height = message.height;
+    cells = message.cells;
+    generation = message.generation;
+    population = message.population;
+    frameCallback?.();
+  };
+
+  worker.onerror = (e) => {
+    console.error('Simulation worker crashed:', e.message);
+    errorCallback?.(e.message);
+  };
+
+  const client: SimulationClient = {
+    get width() {
+      return width;
+    },
+    get height() {
+      return height;
+    },
+    get generation() {
+      return generation;
+    },
+    get pending() {
+      return pending;
+    },
+    get edges() {
+      return currentEdges;
+    },
+    set edges(next: EdgeMode) {
+      if (next === currentEdges) return;
+      currentEdges = next;
+      post({ type: 'setEdges', edges: next });
+    },
+    get rule() {
+      return currentRule;
+    },
+    set rule(next: LifeRule) {
+      currentRule = next;
+      post({ type: 'setRule', rule: formatRule(next) });
+    },
+    load: (next, nextEdges, nextRule) => {
+      width = next.width;
+      height = next.height;
+      cells = next.cells.slice();
+      generation = 0;
+      currentEdges = nextEdges;
+      currentRule = nextRule;
+      const copy = next.cells.slice();
+      post({ type: 'load', width, height, cells: copy, edges: nextEdges, rule: formatRule(nextRule), generation: 0 }, [copy.buffer]);
+    },
+    step: (generations = 1) => post({ type: 'step', generations }),
+    jump: (log2) => post({ type: 'jump', log2 }),
+    resize: (nextWidth, nextHeight) => {
+      // Keep the mirror's overlap so the next draw doesn't flash empty
+      const resized = new Uint8Array(nextWidth * nextHeight);
+      for (let y = 0; y < Math.min(height, nextHeight); y++) {
+        resized.set(cells.subarray(y * width, y * width + Math.min(width, nextWidth)), y * nextWidth);
+      }
+      width = nextWidth;
+      height = nextHeight;
+      cells = resized;
+      post({ type: 'resize', width: nextWidth, height: nextHeight });
+    },
+    getCell: (x, y) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : cells[y * width + x]),
+    setCell: (x, y, state) => {
+      // Update the mirror straight away so drawing with the mouse feels immediate
+      if (x >= 0 && y >= 0 && x < width && y < height) {
+        cells[y * width + x] = state;
+      }
+      post({ type: 'setCell', x, y, state });
+    },
+    population: () => population,
+    snapshot: () => cells.slice(),
+    clear: () => post({ type: 'clear' }),
+    randomize: (density) => post({ type: 'randomize', density }),
+    onFrame: (callback) => {
+      frameCallback = callback;
+    },
+    onError: (callback) => {
+      errorCallback = callback;
+    },
+    dispose: () => {
+      worker.terminate();
+      frameCallback = null;
+      errorCallback = null;
+    }
+  };
+
+  client.load(grid, edges, rule);
+  return client;
+};
@@ -1,10 +1,19 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { AudioGraphProvider } from './audio/AudioGraphContext'
+import { AudioLevelsProvider } from './audio/AudioLevelsContext'
+import { NavigationProvider } from './navigation/NavigationContext'
 import './index.css'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    <AudioGraphProvider>
+      <AudioLevelsProvider>
+        <NavigationProvider>
+          <App />
+        </NavigationProvider>
+      </AudioLevelsProvider>
+    </AudioGraphProvider>
   </React.StrictMode>,
 )
\ No newline at end of file
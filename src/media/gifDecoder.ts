@@ -0,0 +1,330 @@
+// GIF decoding for frame-by-frame playback. Frames are kept as palette indices (one byte a
+// pixel) and composited on demand, since holding every frame as RGBA would take hundreds of
+// megabytes for the larger gallery GIFs.
+export interface GifImageFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  // One palette index per pixel of the frame's rectangle, row-major, already de-interlaced
+  indices: Uint8Array;
+  palette: Uint8Array; // RGB triples, local or global
+  transparentIndex: number | null;
+  disposal: number; // 0-1 keep, 2 clear to background, 3 restore the previous image
+  delay: number; // milliseconds
+}
+
+export interface DecodedGif {
+  width: number;
+  height: number;
+  frames: GifImageFrame[];
+}
+
+const MAX_CODE_SIZE = 12;
+// Browsers play delays this short at 100ms, and GIFs are authored with that in mind
+const MIN_DELAY = 20;
+const DEFAULT_DELAY = 100;
+const KEYFRAME_INTERVAL = 4; // frames between cached full images
+
+const createByteReader = (bytes: Uint8Array) => {
+  let position = 0;
+
+  const ensure = (count: number) => {
+    if (position + count > bytes.length) {
+      throw new Error('GIF data ends unexpectedly');
+    }
+  };
+
+  return {
+    get position() {
+      return position;
+    },
+    isDone: () => position >= bytes.length,
+    byte: () => {
+      ensure(1);
+      return bytes[position++];
+    },
+    word: () => {
+      ensure(2);
+      const value = bytes[position] | (bytes[position + 1] << 8);
+      position += 2;
+      return value;
+    },
+    bytes: (count: number) => {
+      ensure(count);
+      const slice = bytes.subarray(position, position + count);
+      position += count;
+      return slice;
+    },
+    // Data sub-blocks up to the zero-length terminator, joined together
+    subBlocks: () => {
+      const blocks: Uint8Array[] = [];
+      let total = 0;
+      for (let size = bytes[position++]; size > 0; size = bytes[position++]) {
+        ensure(size);
+        blocks.push(bytes.subarray(position, position + size));
+        total += size;
+        position += size;
+      }
+      if (position > bytes.length) {
+        throw new Error('GIF data ends unexpectedly');
+      }
+
+      const data = new Uint8Array(total);
+      let offset = 0;
+      blocks.forEach(block => {
+        data.set(block, offset);
+        offset += block.length;
+      });
+      return data;
+    }
+  };
+};
+
+// Variable-width LZW as GIF uses it. Truncated data leaves the remaining pixels at index 0.
+const decodeLzw = (data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array => {
+  const output = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const prefix = new Uint16Array(1 << MAX_CODE_SIZE);
+  const suffix = new Uint8Array(1 << MAX_CODE_SIZE);
+  const stack = new Uint8Array((1 << MAX_CODE_SIZE) + 1);
+  for (let code = 0; code < clearCode; code++) suffix[code] = code;
+
+  let codeSize = minCodeSize + 1;
+  let codeMask = (1 << codeSize) - 1;
+  let nextCode = endCode + 1;
+  let previous = -1;
+  let first = 0; // first index of the last string written
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let position = 0;
+  let written = 0;
+
+  while (written < pixelCount) {
+    while (bitCount < codeSize) {
+      if (position >= data.length) return output;
+      bitBuffer |= data[position++] << bitCount;
+      bitCount += 8;
+    }
+    const code = bitBuffer & codeMask;
+    bitBuffer >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      codeMask = (1 << codeSize) - 1;
+      nextCode = endCode + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === endCode) break;
+
+    if (previous === -1) {
+      output[written++] = suffix[code];
+      previous = code;
+      first = code;
+      continue;
+    }
+
+    // Walk the string back to front onto the stack. A code not in the table yet is the
+    // previous string plus its own first index.
+    let top = 0;
+    let current = code;
+    if (code >= nextCode) {
+      stack[top++] = first;
+      current = previous;
+    }
+    while (current > endCode) {
+      stack[top++] = suffix[current];
+      current = prefix[current];
+    }
+    first = suffix[current];
+    stack[top++] = first;
+
+    if (nextCode < 1 << MAX_CODE_SIZE) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = first;
+      nextCode++;
+      if (nextCode > codeMask && codeSize < MAX_CODE_SIZE) {
+        codeSize++;
+        codeMask = (1 << codeSize) - 1;
+      }
+    }
+    previous = code;
+
+    while (top > 0 && written < pixelCount) output[written++] = stack[--top];
+  }
+
+  return output;
+};
+
+// Interlaced frames store rows in four passes: every 8th from 0, every 8th from 4,
+// every 4th from 2, then every 2nd from 1
+const deinterlace = (indices: Uint8Array, width: number, height: number) => {
+  const rows = new Uint8Array(indices.length);
+  let source = 0;
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let row = start; row < height; row += step) {
+      rows.set(indices.subarray(source * width, (source + 1) * width), row * width);
+      source++;
+    }
+  }
+  return rows;
+};
+
+export const decodeGif = (bytes: Uint8Array): DecodedGif => {
+  const reader = createByteReader(bytes);
+  const signature = String.fromCharCode(...reader.bytes(6));
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+    throw new Error('Not a GIF file');
+  }
+
+  const width = reader.word();
+  const height = reader.word();
+  const screenFlags = reader.byte();
+  reader.byte(); // background colour index - browsers clear to transparent instead
+  reader.byte(); // pixel aspect ratio
+  const globalPalette = screenFlags & 0x80 ? reader.bytes(3 << ((screenFlags & 0x07) + 1)) : null;
+
+  const frames: GifImageFrame[] = [];
+  // Graphic control extension, applying to the next image only
+  let control = { disposal: 0, delay: DEFAULT_DELAY, transparentIndex: null as number | null };
+
+  try {
+    while (!reader.isDone()) {
+      const introducer = reader.byte();
+
+      if (introducer === 0x3b) break; // trailer
+
+      if (introducer === 0x21) {
+        const label = reader.byte();
+        if (label === 0xf9) {
+          const block = reader.subBlocks();
+          const flags = block[0] ?? 0;
+          const delay = ((block[1] ?? 0) | ((block[2] ?? 0) << 8)) * 10;
+          control = {
+            disposal: (flags >> 2) & 0x07,
+            delay: delay < MIN_DELAY ? DEFAULT_DELAY : delay,
+            transparentIndex: flags & 0x01 ? block[3] ?? 0 : null
+          };
+        } else {
+          reader.subBlocks(); // application, comment and plain text extensions
+        }
+        continue;
+      }
+
+      if (introducer !== 0x2c) {
+        throw new Error(`Unexpected block 0x${introducer.toString(16)} at byte ${reader.position - 1}`);
+      }
+
+      const left = reader.word();
+      const top = reader.word();
+      const frameWidth = reader.word();
+      const frameHeight = reader.word();
+      const imageFlags = reader.byte();
+      const localPalette = imageFlags & 0x80 ? reader.bytes(3 << ((imageFlags & 0x07) + 1)) : null;
+      const palette = localPalette ?? globalPalette;
+      if (!palette) {
+        throw new Error('GIF frame has no colour table');
+      }
+
+      const minCodeSize = reader.byte();
+      if (minCodeSize < 2 || minCodeSize > 8) {
+        throw new Error(`Invalid LZW code size ${minCodeSize}`);
+      }
+      let indices = decodeLzw(reader.subBlocks(), minCodeSize, frameWidth * frameHeight);
+      if (imageFlags & 0x40) indices = deinterlace(indices, frameWidth, frameHeight);
+
+      frames.push({ left, top, width: frameWidth, height: frameHeight, indices, palette, ...control });
+      control = { disposal: 0, delay: DEFAULT_DELAY, transparentIndex: null };
+    }
+  } catch (error) {
+    // Browsers show whatever frames arrived before the damage, so do the same
+    if (frames.length === 0) throw error;
+    console.warn(`GIF is damaged after frame ${frames.length}:`, error);
+  }
+
+  if (frames.length === 0) {
+    throw new Error('GIF has no frames');
+  }
+  return { width, height, frames };
+};
+
+// Builds full RGBA images of any frame. Moving forward one frame draws just that frame;
+// other jumps restart from the nearest cached keyframe, so stepping back stays cheap.
+export const createFrameCompositor = (gif: DecodedGif) => {
+  const { width, height, frames } = gif;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const keyframes = new Map<number, Uint8ClampedArray>();
+  let current = -1; // frame `pixels` shows, -1 for the empty canvas
+  let beforeCurrent: Uint8ClampedArray | null = null; // for frames disposed by restoring
+
+  const eachPixel = (frame: GifImageFrame, visit: (offset: number, index: number) => void) => {
+    const right = Math.min(width, frame.left + frame.width);
+    const bottom = Math.min(height, frame.top + frame.height);
+    for (let y = frame.top; y < bottom; y++) {
+      for (let x = frame.left; x < right; x++) {
+        visit((y * width + x) * 4, frame.indices[(y - frame.top) * frame.width + (x - frame.left)]);
+      }
+    }
+  };
+
+  const dispose = (frame: GifImageFrame) => {
+    if (frame.disposal === 2) {
+      eachPixel(frame, offset => pixels.fill(0, offset, offset + 4));
+    } else if (frame.disposal === 3 && beforeCurrent) {
+      pixels.set(beforeCurrent);
+    }
+  };
+
+  const draw = (frame: GifImageFrame) => {
+    const { palette, transparentIndex } = frame;
+    eachPixel(frame, (offset, index) => {
+      if (index === transparentIndex) return;
+      pixels[offset] = palette[index * 3];
+      pixels[offset + 1] = palette[index * 3 + 1];
+      pixels[offset + 2] = palette[index * 3 + 2];
+      pixels[offset + 3] = 255;
+    });
+  };
+
+  const advance = () => {
+    if (current >= 0) dispose(frames[current]);
+    const next = frames[current + 1];
+    beforeCurrent = next.disposal === 3 ? pixels.slice() : null;
+    draw(next);
+    current++;
+
+    // A frame that restores what was under it can't be resumed from on its own
+    if (current % KEYFRAME_INTERVAL === 0 && next.disposal !== 3 && !keyframes.has(current)) {
+      keyframes.set(current, pixels.slice());
+    }
+  };
+
+  const frameAt = (index: number) => {
+    const target = Math.max(0, Math.min(frames.length - 1, index));
+    if (target === current) return pixels;
+
+    let keyframe = -1;
+    keyframes.forEach((_, frame) => {
+      if (frame <= target && frame > keyframe) keyframe = frame;
+    });
+
+    if (target < current || keyframe > current) {
+      if (keyframe >= 0) {
+        pixels.set(keyframes.get(keyframe)!);
+      } else {
+        pixels.fill(0);
+      }
+      current = keyframe;
+      beforeCurrent = null;
+    }
+    while (current < target) advance();
+    return pixels;
+  };
+
+  return { width, height, frameCount: frames.length, frameAt };
+};
+
+export type FrameCompositor = ReturnType<typeof createFrameCompositor>;
@@ -0,0 +1,175 @@
+export type RGB = [number, number, number];
+
+export interface GifFrame {
+  // One palette index per pixel, row-major
+  indices: Uint8Array;
+  delay: number; // milliseconds
+}
+
+export interface GifOptions {
+  width: number;
+  height: number;
+  palette: RGB[];
+  loop?: number; // 0 loops forever
+}
+
+const MAX_CODE_SIZE = 12;
+
+// Growable byte buffer - GIFs for long runs easily reach several megabytes
+const createByteWriter = () => {
+  let buffer = new Uint8Array(1 << 16);
+  let length = 0;
+
+  const byte = (value: number) => {
+    if (length === buffer.length) {
+      const grown = new Uint8Array(buffer.length * 2);
+      grown.set(buffer);
+      buffer = grown;
+    }
+    buffer[length++] = value;
+  };
+
+  return {
+    byte,
+    word: (value: number) => {
+      byte(value & 0xff);
+      byte((value >> 8) & 0xff);
+    },
+    bytes: (values: ArrayLike<number>) => {
+      for (let i = 0; i < values.length; i++) byte(values[i]);
+    },
+    string: (value: string) => {
+      for (let i = 0; i < value.length; i++) byte(value.charCodeAt(i));
+    },
+    result: () => buffer.slice(0, length)
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+// GIF palettes must hold a power of two entries, at least 2
+const paletteBits = (size: number) => {
+  let bits = 1;
+  while (1 << bits < size) bits++;
+  return bits;
+};
+
+// Variable-width LZW as specified by GIF89a, emitted in 255-byte sub-blocks
+const lzwEncode = (indices: Uint8Array, minCodeSize: number, out: ByteWriter) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    out.byte(block.length);
+    out.bytes(block);
+    block.length = 0;
+  };
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) flushBlock();
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i];
+    // Dictionary entries are keyed by (prefix code, next index)
+    const key = (prefix << 8) | value;
+    const existing = dictionary.get(key);
+
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+
+    if (nextCode < 1 << MAX_CODE_SIZE) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < MAX_CODE_SIZE) codeSize++;
+    } else {
+      // Table full - start over
+      emit(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+
+    prefix = value;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  flushBlock();
+  out.byte(0); // block terminator
+};
+
+export const encodeGif = (frames: GifFrame[], options: GifOptions): Uint8Array => {
+  const { width, height, palette, loop = 0 } = options;
+  if (palette.length > 256) {
+    throw new Error(`GIF palettes are limited to 256 colours, got ${palette.length}`);
+  }
+
+  const bits = paletteBits(Math.max(2, palette.length));
+  const out = createByteWriter();
+
+  out.string('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(0x80 | ((bits - 1) << 4) | (bits - 1)); // global colour table present
+  out.byte(0); // background colour index
+  out.byte(0); // pixel aspect ratio
+
+  for (let i = 0; i < 1 << bits; i++) {
+    const [r, g, b] = palette[i] ?? [0, 0, 0];
+    out.byte(r);
+    out.byte(g);
+    out.byte(b);
+  }
+
+  // NETSCAPE2.0 application extension for looping
+  out.bytes([0x21, 0xff, 0x0b]);
+  out.string('NETSCAPE2.0');
+  out.bytes([0x03, 0x01]);
+  out.word(loop);
+  out.byte(0);
+
+  frames.forEach(frame => {
+    // Graphic control extension - delay is stored in hundredths of a second
+    out.bytes([0x21, 0xf9, 0x04, 0x00]);
+    out.word(Math.max(2, Math.round(frame.delay / 10)));
+    out.bytes([0x00, 0x00]);
+
+    // Image descriptor covering the whole canvas, no local colour table
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(0);
+
+    lzwEncode(frame.indices, Math.max(2, bits), out);
+  });
+
+  out.byte(0x3b);
+  return out.result();
+};
@@ -0,0 +1,152 @@
+import { AudioGraph } from '../audio/AudioGraphContext';
+
+export interface LayoutRecording {
+  hasAudio: boolean;
+  stop: () => Promise<Blob>;
+}
+
+const BACKGROUND = '#0a1628';
+const FRAME_RATE = 30;
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export const isRecordingSupported = (): boolean => {
+  return typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+};
+
+// Where an <img> actually paints inside its box, honouring object-fit
+const getPaintedRect = (element: HTMLImageElement | HTMLCanvasElement, box: { x: number; y: number; width: number; height: number }) => {
+  const naturalWidth = element instanceof HTMLImageElement ? element.naturalWidth : element.width;
+  const naturalHeight = element instanceof HTMLImageElement ? element.naturalHeight : element.height;
+  const fit = getComputedStyle(element).objectFit;
+
+  if (!naturalWidth || !naturalHeight || (fit !== 'contain' && fit !== 'cover')) {
+    return box;
+  }
+
+  const scale = fit === 'contain'
+    ? Math.min(box.width / naturalWidth, box.height / naturalHeight)
+    : Math.max(box.width / naturalWidth, box.height / naturalHeight);
+  const width = naturalWidth * scale;
+  const height = naturalHeight * scale;
+
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height
+  };
+};
+
+// The rotation, scale and skew an element picks up from its own CSS transform and every
+// ancestor's, e.g. the collages' tilted items. Translation is left out - the bounding rect
+// already has it. 3D transforms are flattened to their 2D part.
+const getLinearTransform = (element: Element | null, cache: Map<Element, DOMMatrix>): DOMMatrix => {
+  if (!element) return new DOMMatrix();
+
+  const cached = cache.get(element);
+  if (cached) return cached;
+
+  const inherited = getLinearTransform(element.parentElement, cache);
+  const { transform } = getComputedStyle(element);
+  let linear = inherited;
+  if (transform && transform !== 'none') {
+    const own = new DOMMatrix(transform);
+    linear = inherited.multiply(new DOMMatrix([own.a, own.b, own.c, own.d, 0, 0]));
+  }
+  cache.set(element, linear);
+  return linear;
+};
+
+// Redraws every visible image and canvas inside the root at its on-screen position.
+// Works for any layout, including the DOM-based collages, and GIFs draw their current frame.
+const compositeFrame = (ctx: CanvasRenderingContext2D, root: HTMLElement, scale: number) => {
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, window.innerWidth, window.innerHeight);
+  ctx.imageSmoothingEnabled = false;
+
+  // Elements share ancestors, so each one's transform is only read once per frame
+  const transforms = new Map<Element, DOMMatrix>();
+
+  root.querySelectorAll<HTMLImageElement | HTMLCanvasElement>('img, canvas').forEach(element => {
+    if (element instanceof HTMLImageElement && (!element.complete || !element.naturalWidth)) return;
+
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+    if (rect.right < 0 || rect.bottom < 0 || rect.left > window.innerWidth || rect.top > window.innerHeight) return;
+
+    // A transformed box stays centred on its bounding rect, so draw its untransformed
+    // layout box around that centre with the transform applied
+    const linear = getLinearTransform(element, transforms);
+    const width = linear.isIdentity ? rect.width : element.offsetWidth;
+    const height = linear.isIdentity ? rect.height : element.offsetHeight;
+    const box = { x: -width / 2, y: -height / 2, width, height };
+
+    // Clip to the element's box, as overflow: hidden containers do on screen
+    const painted = getPaintedRect(element, box);
+    ctx.save();
+    ctx.translate(rect.left + rect.width / 2, rect.top + rect.height / 2);
+    ctx.transform(linear.a, linear.b, linear.c, linear.d, 0, 0);
+    ctx.beginPath();
+    ctx.rect(box.x, box.y, box.width, box.height);
+    ctx.clip();
+    try {
+      ctx.drawImage(element, painted.x, painted.y, painted.width, painted.height);
+    } catch {
+      // Tainted or not yet decoded - skip this element for this frame
+    }
+    ctx.restore();
+  });
+};
+
+// Captures the layout under `root` plus, when available, whatever the audio graph is playing
+export const startLayoutRecording = (root: HTMLElement, audio: AudioGraph | null): LayoutRecording => {
+  const scale = Math.min(window.devicePixelRatio || 1, 2);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(window.innerWidth * scale);
+  canvas.height = Math.round(window.innerHeight * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  const stream = canvas.captureStream(FRAME_RATE);
+
+  // Tap the master gain so the recording hears exactly what the listener hears
+  let audioDestination: MediaStreamAudioDestinationNode | null = null;
+  if (audio) {
+    audioDestination = audio.context.createMediaStreamDestination();
+    audio.output.connect(audioDestination);
+    audioDestination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+  }
+
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  let frameId = requestAnimationFrame(function draw() {
+    compositeFrame(ctx, root, scale);
+    frameId = requestAnimationFrame(draw);
+  });
+
+  recorder.start(1000);
+
+  return {
+    hasAudio: !!audioDestination,
+    stop: () => new Promise<Blob>((resolve) => {
+      recorder.onstop = () => {
+        cancelAnimationFrame(frameId);
+        stream.getTracks().forEach(track => track.stop());
+        if (audio && audioDestination) {
+          audio.output.disconnect(audioDestination);
+        }
+        resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+      };
+      recorder.stop();
+    })
+  };
+};
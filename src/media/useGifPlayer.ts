@@ -0,0 +1,105 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+import { createFrameCompositor, decodeGif, DecodedGif, FrameCompositor } from './gifDecoder';
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+interface LoadedGif {
+  path: string;
+  gif: DecodedGif;
+  compositor: FrameCompositor;
+}
+
+const fetchGif = async (path: string) => {
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  return decodeGif(new Uint8Array(await response.arrayBuffer()));
+};
+
+// Decodes an animated GIF and plays it onto `canvasRef` at any speed, in either direction,
+// a frame at a time if need be. Stills and anything that fails to decode report
+// isReady: false, so the caller can keep showing a plain <img>.
+export const useGifPlayer = (canvasRef: RefObject<HTMLCanvasElement>, path: string | null) => {
+  const [loaded, setLoaded] = useState<LoadedGif | null>(null);
+  const [frame, setFrame] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [isReversed, setIsReversed] = useState(false);
+
+  // Only the current path's GIF counts - the old one stays in state until the new one decodes
+  const player = loaded && loaded.path === path ? loaded : null;
+  const frameCount = player?.gif.frames.length ?? 0;
+
+  useEffect(() => {
+    setFrame(0);
+    if (!path || !path.toLowerCase().endsWith('.gif')) return;
+
+    let isCancelled = false;
+    fetchGif(path)
+      .then(gif => {
+        if (isCancelled || gif.frames.length < 2) return;
+        setLoaded({ path, gif, compositor: createFrameCompositor(gif) });
+      })
+      .catch(error => console.warn(`Could not decode ${path}, showing it as an image:`, error));
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [path]);
+
+  // Release the decoded frames once the lightbox moves on or closes
+  useEffect(() => {
+    if (loaded && loaded.path !== path) setLoaded(null);
+  }, [loaded, path]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!player || !ctx) return;
+
+    const { compositor } = player;
+    ctx.putImageData(new ImageData(compositor.frameAt(frame), compositor.width, compositor.height), 0, 0);
+  }, [canvasRef, player, frame]);
+
+  // Each frame waits out its own delay, scaled by the speed
+  useEffect(() => {
+    if (!player || !isPlaying) return;
+
+    const delay = player.gif.frames[frame].delay / speed;
+    const timer = setTimeout(() => {
+      setFrame(current => (current + (isReversed ? -1 : 1) + frameCount) % frameCount);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [player, isPlaying, frame, speed, isReversed, frameCount]);
+
+  const togglePlaying = useCallback(() => setIsPlaying(prev => !prev), []);
+
+  // Stepping pauses, so the frame stays put for a closer look
+  const step = (direction: 1 | -1) => {
+    if (frameCount === 0) return;
+    setIsPlaying(false);
+    setFrame(current => (current + direction + frameCount) % frameCount);
+  };
+
+  const seek = (index: number) => {
+    if (frameCount === 0) return;
+    setFrame(Math.max(0, Math.min(frameCount - 1, index)));
+  };
+
+  return {
+    isReady: player !== null,
+    width: player?.gif.width ?? 0,
+    height: player?.gif.height ?? 0,
+    frameCount,
+    frame,
+    isPlaying,
+    speed,
+    isReversed,
+    togglePlaying,
+    step,
+    seek,
+    setSpeed,
+    toggleReversed: () => setIsReversed(prev => !prev)
+  };
+};
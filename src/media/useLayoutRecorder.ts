@@ -0,0 +1,54 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { useAudioGraph } from '../audio/AudioGraphContext';
+import { isRecordingSupported, LayoutRecording, startLayoutRecording } from './layoutRecorder';
+
+export const useLayoutRecorder = (rootRef: RefObject<HTMLElement>, fileLabel: string) => {
+  const { getGraph } = useAudioGraph();
+  const [isRecording, setIsRecording] = useState(false);
+  const recordingRef = useRef<LayoutRecording | null>(null);
+
+  const download = (blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `moonchild-${fileLabel}-${new Date().toISOString().replace(/[:.]/g, '-')}.webm`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const toggleRecording = useCallback(async () => {
+    if (recordingRef.current) {
+      const recording = recordingRef.current;
+      recordingRef.current = null;
+      setIsRecording(false);
+      download(await recording.stop());
+      return;
+    }
+
+    if (!rootRef.current || !isRecordingSupported()) {
+      alert('Recording is not supported in this browser.');
+      return;
+    }
+
+    try {
+      const recording = startLayoutRecording(rootRef.current, getGraph());
+      if (!recording.hasAudio) {
+        console.warn('Recording without audio - the soundtrack has not started through Web Audio yet');
+      }
+      recordingRef.current = recording;
+      setIsRecording(true);
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+    }
+  }, [rootRef, getGraph, fileLabel]);
+
+  // Stop cleanly if the app goes away mid-recording
+  useEffect(() => {
+    return () => {
+      recordingRef.current?.stop();
+      recordingRef.current = null;
+    };
+  }, []);
+
+  return { isRecording, toggleRecording };
+};
@@ -0,0 +1,53 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef } from 'react';
+
+// The ids of the items in the layout on screen, in the order it shows them. The lightbox
+// steps through this order, so next/previous follow what the visitor sees rather than
+// the source arrays.
+interface NavigationContextValue {
+  publishOrder: (order: string[]) => void;
+  withdrawOrder: (order: string[]) => void;
+  getOrder: () => string[];
+}
+
+const NavigationContext = createContext<NavigationContextValue>({
+  publishOrder: () => {},
+  withdrawOrder: () => {},
+  getOrder: () => []
+});
+
+export const NavigationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // A ref rather than state - only read when the lightbox steps, and layouts republish often
+  const orderRef = useRef<string[]>([]);
+
+  const publishOrder = useCallback((order: string[]) => {
+    orderRef.current = order;
+  }, []);
+
+  // Only clears the order if it's still the one given, so a layout unmounting after
+  // its replacement has published doesn't wipe the new order
+  const withdrawOrder = useCallback((order: string[]) => {
+    if (orderRef.current === order) orderRef.current = [];
+  }, []);
+
+  const getOrder = useCallback(() => orderRef.current, []);
+
+  return (
+    <NavigationContext.Provider value={{ publishOrder, withdrawOrder, getOrder }}>
+      {children}
+    </NavigationContext.Provider>
+  );
+};
+
+export const useNavigation = () => useContext(NavigationContext);
+
+// Publishes `order` while the calling layout is mounted. Pass a memoised array, or null
+// when the caller isn't the layout on screen.
+export const useDisplayOrder = (order: string[] | null) => {
+  const { publishOrder, withdrawOrder } = useNavigation();
+
+  useEffect(() => {
+    if (!order) return;
+    publishOrder(order);
+    return () => withdrawOrder(order);
+  }, [order, publishOrder, withdrawOrder]);
+};
@@ -0,0 +1,65 @@
+// Stepping through items in the order a layout shows them. Orders are lists of item ids.
+
+// The id `direction` steps from `current`, wrapping at either end. null when `current`
+// isn't in the order.
+export const stepOrder = (order: string[], current: string, direction: 1 | -1): string | null => {
+  const index = order.indexOf(current);
+  if (index === -1) return null;
+  return order[(index + direction + order.length) % order.length];
+};
+
+// The ids up to `distance` steps either side of `current`, nearest first
+export const neighbourIds = (order: string[], current: string, distance = 1): string[] => {
+  const index = order.indexOf(current);
+  if (index === -1) return [];
+
+  const ids: string[] = [];
+  for (let step = 1; step <= distance && step < order.length; step++) {
+    ids.push(order[(index + step) % order.length], order[(index - step + order.length) % order.length]);
+  }
+  return [...new Set(ids)].filter(id => id !== current);
+};
+
+// An item where a layout has put it, in px
+export interface PlacedItem {
+  id: string;
+  x: number;
+  y: number;
+  height: number;
+  z?: number; // stacking order, higher on top
+}
+
+const MIN_ROW_BAND = 24; // px
+
+// Masonry columns read one at a time, top to bottom. Item i sits in column i % columns.
+export const columnMajorOrder = (ids: string[], columns: number): string[] => {
+  const order: string[] = [];
+  for (let column = 0; column < columns; column++) {
+    for (let index = column; index < ids.length; index += columns) {
+      order.push(ids[index]);
+    }
+  }
+  return order;
+};
+
+// Rows top to bottom, each left to right, the way a page is read. An item starts a new row
+// unless its top is within half the height of the current row's first item. Items stacked
+// on the same spot read top-most first.
+export const readingOrder = (items: PlacedItem[]): string[] => {
+  const byTop = [...items].sort((a, b) => a.y - b.y);
+  const rows: PlacedItem[][] = [];
+  let rowEnd = -Infinity;
+
+  byTop.forEach(item => {
+    if (rows.length > 0 && item.y < rowEnd) {
+      rows[rows.length - 1].push(item);
+    } else {
+      rows.push([item]);
+      rowEnd = item.y + Math.max(MIN_ROW_BAND, item.height / 2);
+    }
+  });
+
+  return rows.flatMap(row =>
+    row.sort((a, b) => a.x - b.x || (b.z ?? 0) - (a.z ?? 0)).map(item => item.id)
+  );
+};
@@ -0,0 +1,69 @@
+import { ViewMode } from '../types';
+
+// Hash routes work on GitHub Pages under any base path:
+//   #/<layout>[/<item id>][?track=<id>&...]
+// The query part also carries the simulation share parameters (see life/share.ts).
+export interface HashRoute {
+  layout: ViewMode | null;
+  itemId: string | null;
+  params: URLSearchParams;
+}
+
+// Marks history entries pushed for an open lightbox, so closing it can step back instead
+export interface RouteState {
+  lightbox?: boolean;
+}
+
+const VIEW_MODES: ViewMode[] = ['list', 'stack', 'large-list', 'pinterest', 'irregular', 'pics-only', 'simulation'];
+
+export const isViewMode = (value: string): value is ViewMode => (VIEW_MODES as string[]).includes(value);
+
+export const parseHash = (hash: string): HashRoute => {
+  const raw = hash.replace(/^#/, '');
+
+  // Older links were just the simulation parameters, with no path
+  if (!raw.startsWith('/')) {
+    return { layout: null, itemId: null, params: new URLSearchParams(raw) };
+  }
+
+  const queryStart = raw.indexOf('?');
+  const path = queryStart === -1 ? raw : raw.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : raw.slice(queryStart + 1);
+  const [layout = '', itemId = ''] = path.split('/').filter(Boolean).map(decodeURIComponent);
+
+  // An unknown layout makes the item meaningless too
+  if (!isViewMode(layout)) {
+    return { layout: null, itemId: null, params: new URLSearchParams(query) };
+  }
+
+  return { layout, itemId: itemId || null, params: new URLSearchParams(query) };
+};
+
+export const formatHash = (route: HashRoute): string => {
+  const segments = [route.layout, route.itemId].filter((segment): segment is string => !!segment);
+  const path = segments.length > 0 ? `/${segments.map(encodeURIComponent).join('/')}` : '';
+  const query = route.params.toString();
+  return path || query ? `#${path}${query ? `?${query}` : ''}` : '';
+};
+
+export const readRoute = (): HashRoute => parseHash(window.location.hash);
+
+const urlFor = (route: HashRoute) => `${window.location.pathname}${window.location.search}${formatHash(route)}`;
+
+export const pushRoute = (route: HashRoute, state: RouteState = {}) => {
+  window.history.pushState(state, '', urlFor(route));
+};
+
+// Replaces the current entry, keeping its history state
+export const replaceRoute = (route: HashRoute) => {
+  window.history.replaceState(window.history.state, '', urlFor(route));
+};
+
+export const readRouteState = (): RouteState => (window.history.state ?? {}) as RouteState;
+
+// Query parameters only - layout and item are left as they are
+export const getHashParams = () => readRoute().params;
+
+export const writeHashParams = (params: URLSearchParams) => {
+  replaceRoute({ ...readRoute(), params });
+};
@@ -0,0 +1,159 @@
+import { ViewMode } from '../types';
+import { isViewMode } from '../navigation/hashRoute';
+import { Arrangement, createArrangement, DEFAULT_ARRANGEMENT_NAME, readArrangement } from '../collage/arrangement';
+import { DEFAULT_PLAYLIST, isPlaybackMode, MAX_REPEAT_COUNT, PlaylistSettings } from '../audio/playlist';
+
+// Everything that survives a reload. Bump SESSION_VERSION when the shape changes
+// and add a step to MIGRATIONS that turns the previous version into the new one.
+export interface CollageSession {
+  arrangements: Arrangement[];
+  active: string; // name of the arrangement on screen
+}
+
+export interface Session {
+  version: number;
+  layout: ViewMode;
+  trackId: string | null;
+  volume: number;
+  crossfade: number; // seconds between tracks
+  playlist: PlaylistSettings;
+  playerPosition: { x: number; y: number } | null; // null until the player has been moved
+  collage: CollageSession;
+}
+
+const STORAGE_KEY = 'moonchild:session';
+export const SESSION_VERSION = 2;
+
+export const DEFAULT_SESSION: Session = {
+  version: SESSION_VERSION,
+  layout: 'pinterest',
+  trackId: null,
+  volume: 0.7,
+  crossfade: 2,
+  playlist: DEFAULT_PLAYLIST,
+  playerPosition: null,
+  collage: { arrangements: [createArrangement()], active: DEFAULT_ARRANGEMENT_NAME }
+};
+
+// Stored JSON, before anything about it has been checked
+type StoredData = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is StoredData => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isPoint = (value: unknown): value is { x: number; y: number } => {
+  return isRecord(value) && typeof value.x === 'number' && typeof value.y === 'number';
+};
+
+// MIGRATIONS[n] upgrades a version n session to version n + 1
+const MIGRATIONS: Record<number, (data: StoredData) => StoredData> = {
+  // v1 kept a single unnamed collage as separate position and z-index maps
+  1: (data) => {
+    const collage = isRecord(data.collage) ? data.collage : {};
+    const positions = isRecord(collage.positions) ? collage.positions : {};
+    const zIndices = isRecord(collage.zIndices) ? collage.zIndices : {};
+    const items: Arrangement['items'] = {};
+    for (const [id, position] of Object.entries(positions)) {
+      if (!isPoint(position)) continue;
+      const z = zIndices[id];
+      items[id] = { x: position.x, y: position.y, z: typeof z === 'number' ? z : 1 };
+    }
+    return {
+      ...data,
+      collage: { arrangements: [{ name: DEFAULT_ARRANGEMENT_NAME, items }], active: DEFAULT_ARRANGEMENT_NAME }
+    };
+  }
+};
+
+// The fields come back unchecked - sanitize sees to them
+const migrate = (data: unknown): Partial<Session> | null => {
+  if (!isRecord(data)) return null;
+
+  let current = data;
+  let version = current.version;
+  while (typeof version === 'number' && version < SESSION_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) return null;
+    current = { ...step(current), version: version + 1 };
+    version = current.version;
+  }
+  // Anything newer than this build understands is dropped rather than misread
+  return version === SESSION_VERSION ? current : null;
+};
+
+const sanitizeCollage = (collage: Partial<CollageSession> | undefined): CollageSession => {
+  const arrangements: Arrangement[] = [];
+  for (const value of Array.isArray(collage?.arrangements) ? collage.arrangements : []) {
+    try {
+      arrangements.push(readArrangement(value));
+    } catch (error) {
+      console.warn('Dropping unreadable saved arrangement:', error);
+    }
+  }
+  if (arrangements.length === 0) {
+    return DEFAULT_SESSION.collage;
+  }
+
+  const active = arrangements.some(arrangement => arrangement.name === collage?.active) ? collage!.active! : arrangements[0].name;
+  return { arrangements, active };
+};
+
+const sanitizePlaylist = (playlist: Partial<PlaylistSettings> | undefined): PlaylistSettings => ({
+  mode: isPlaybackMode(playlist?.mode) ? playlist.mode : DEFAULT_PLAYLIST.mode,
+  repeatCount: typeof playlist?.repeatCount === 'number' && playlist.repeatCount >= 1
+    ? Math.min(MAX_REPEAT_COUNT, Math.round(playlist.repeatCount))
+    : DEFAULT_PLAYLIST.repeatCount
+});
+
+// Fill gaps from the defaults and drop fields of the wrong type
+const sanitize = (data: Partial<Session>): Session => ({
+  version: SESSION_VERSION,
+  layout: typeof data.layout === 'string' && isViewMode(data.layout) ? data.layout : DEFAULT_SESSION.layout,
+  trackId: typeof data.trackId === 'string' ? data.trackId : null,
+  volume: typeof data.volume === 'number' ? Math.max(0, Math.min(1, data.volume)) : DEFAULT_SESSION.volume,
+  crossfade: typeof data.crossfade === 'number' && data.crossfade >= 0 ? data.crossfade : DEFAULT_SESSION.crossfade,
+  playlist: sanitizePlaylist(data.playlist),
+  playerPosition: isPoint(data.playerPosition) ? data.playerPosition : null,
+  collage: sanitizeCollage(data.collage)
+});
+
+let cached: Session | null = null;
+
+export const loadSession = (): Session => {
+  if (cached) return cached;
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const migrated = raw ? migrate(JSON.parse(raw)) : null;
+    if (raw && !migrated) {
+      console.warn('Discarding saved session from an unknown version');
+    }
+    cached = migrated ? sanitize(migrated) : DEFAULT_SESSION;
+  } catch (error) {
+    console.warn('Could not read saved session:', error);
+    cached = DEFAULT_SESSION;
+  }
+  return cached;
+};
+
+export const saveSession = (changes: Partial<Omit<Session, 'version'>>) => {
+  cached = { ...loadSession(), ...changes };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cached));
+  } catch (error) {
+    // Private browsing or a full quota - the session just won't persist
+    console.warn('Could not save session:', error);
+  }
+};
+
+// Forget everything and start over from a clean URL
+export const resetSession = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Could not clear saved session:', error);
+  }
+  cached = null;
+  window.location.replace(`${window.location.pathname}${window.location.search}`);
+};
@@ -1,18 +1,42 @@
-export interface GifItem {
+// Optional details carried over from the catalog metadata (media.json).
+// Dimensions and frame count are read from the files themselves at build time.
+export interface CatalogMetadata {
+  width?: number;
+  height?: number;
+  frameCount?: number;
+  generation?: number; // generation a still was captured at
+  generations?: number; // generations an animation spans
+  rule?: string;
+  population?: number;
+  seed?: string;
+  date?: string; // creation date, ISO 8601
+  description?: string;
+  tags?: string[];
+}
+
+export interface GifItem extends CatalogMetadata {
   id: string;
   name: string;
   path: string;
 }
 
-export interface MediaItem {
+export interface MediaItem extends CatalogMetadata {
   id: string;
   name: string;
   path: string;
   type: 'gif' | 'image';
 }
 
-export interface MusicTrack {
+export interface MusicTrack extends CatalogMetadata {
   id: string;
   name: string;
   path: string;
-}
\ No newline at end of file
+}
+
+export interface MediaCatalog {
+  gifs: GifItem[];
+  images: GifItem[];
+  music: MusicTrack[];
+}
+
+export type ViewMode = 'list' | 'stack' | 'large-list' | 'pinterest' | 'irregular' | 'pics-only' | 'simulation';
@@ -0,0 +1,53 @@
+// Seeded randomness so a layout can be recreated exactly from its seed.
+// Seeds are unsigned 32-bit integers, written as short base-36 strings in the UI and URL.
+
+export type Random = () => number;
+
+// mulberry32 - small, fast and plenty random for arranging images
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => {
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * 4294967296);
+};
+
+export const formatSeed = (seed: number) => (seed >>> 0).toString(36);
+
+// Accepts a formatted seed, or any other text, which is hashed into one
+export const parseSeed = (value: string | null | undefined): number | null => {
+  const text = value?.trim().toLowerCase();
+  if (!text) return null;
+
+  if (/^[0-9a-z]{1,7}$/.test(text)) {
+    const seed = parseInt(text, 36);
+    if (seed <= 0xffffffff) return seed;
+  }
+
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const shuffle = <T,>(array: T[], random: Random): T[] => {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
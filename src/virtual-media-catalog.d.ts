@@ -0,0 +1,7 @@
+// Generated at build time by plugins/mediaCatalog.ts from public/ and media.json
+declare module 'virtual:media-catalog' {
+  import { MediaCatalog } from './types';
+
+  const catalog: MediaCatalog;
+  export default catalog;
+}
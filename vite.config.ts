@@ -1,8 +1,9 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import mediaCatalog from './plugins/mediaCatalog'
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mediaCatalog({ metadataFile: 'media.json' })],
   base: '/moonchild/',
   publicDir: 'public',
   assetsInclude: ['**/*.gif', '**/*.wav', '**/*.mp3'],